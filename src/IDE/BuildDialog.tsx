@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import {
+  BUILD_OUTDIR,
+  DEFAULT_BUILD_CONFIG,
+  type BuildConfig,
+  type BuildFormat
+} from './service/bundler';
+
+const ENTRY_EXTENSIONS = /\.(m|c)?(j|t)sx?$/;
+const FORMATS: { value: BuildFormat; label: string }[] = [
+  { value: 'esm', label: 'ESM' },
+  { value: 'cjs', label: 'CommonJS' },
+  { value: 'iife', label: 'IIFE' }
+];
+
+export function BuildDialog({ onClose, onBuild }: { onClose: () => void; onBuild: (config: BuildConfig) => void }) {
+  const { buildConfig, filePaths, selectedFileId, getFilePath } = useIDE();
+
+  const entryPoints = filePaths
+    .map(file => file.path)
+    .filter(
+      path =>
+        ENTRY_EXTENSIONS.test(path) &&
+        !path.endsWith('.d.ts') &&
+        !path.startsWith(`${BUILD_OUTDIR}/`) &&
+        !path.startsWith('node_modules/')
+    )
+    .sort();
+
+  const [config, setConfig] = useState<BuildConfig>(() => {
+    if (buildConfig) return buildConfig;
+    const activePath = selectedFileId ? getFilePath(selectedFileId) : null;
+    const entryPoint = activePath && entryPoints.includes(activePath) ? activePath : (entryPoints[0] ?? '');
+    return { ...DEFAULT_BUILD_CONFIG, entryPoint };
+  });
+
+  const update = (changes: Partial<BuildConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const submit = () => {
+    onClose();
+    onBuild(config);
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div
+        className="quick-open build-dialog"
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+      >
+        <div className="dialog-header">
+          <span>Build Configuration</span>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <label>
+          Entry point
+          <select autoFocus value={config.entryPoint} onChange={e => update({ entryPoint: e.target.value })}>
+            {entryPoints.length === 0 && <option value="">No JavaScript or TypeScript files</option>}
+            {entryPoints.map(path => (
+              <option key={path} value={path}>
+                {path}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Format
+          <select value={config.format} onChange={e => update({ format: e.target.value as BuildFormat })}>
+            {FORMATS.map(format => (
+              <option key={format.value} value={format.value}>
+                {format.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Target
+          <input
+            value={config.target}
+            onChange={e => update({ target: e.target.value })}
+            placeholder="es2020"
+            spellCheck={false}
+          />
+        </label>
+
+        <div className="build-dialog-flags">
+          <label>
+            <input type="checkbox" checked={config.minify} onChange={e => update({ minify: e.target.checked })} />
+            Minify
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={config.sourcemap}
+              onChange={e => update({ sourcemap: e.target.checked })}
+            />
+            Sourcemap
+          </label>
+        </div>
+
+        <div className="dialog-actions">
+          <span className="quick-open-path" title="Cleared before the output is written">
+            Output: {BUILD_OUTDIR}/
+          </span>
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={submit} disabled={!config.entryPoint}>
+            Build
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react';
+import { useCommands } from './commands';
+import { formatKeybinding } from './keybindings';
+import { fuzzyMatch } from './service/fuzzyMatch';
+
+export function CommandPalette({ onClose }: { onClose: () => void }) {
+  const { commands, execute } = useCommands();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(
+    () =>
+      commands
+        .map(command => {
+          const label = `${command.category}: ${command.title}`;
+          return { command, label, match: fuzzyMatch(query, label) };
+        })
+        .filter(result => result.match !== null)
+        .sort((a, b) => b.match!.score - a.match!.score || a.label.localeCompare(b.label)),
+    [commands, query]
+  );
+
+  const run = (id: string | undefined) => {
+    onClose();
+    // After the overlay is gone, so commands that prompt or move focus start from the editor
+    if (id) setTimeout(() => execute(id), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[activeIndex]?.command.id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div className="quick-open" onMouseDown={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type the name of a command"
+          spellCheck={false}
+        />
+        <div className="quick-open-list">
+          {results.length === 0 ?
+            <div className="process-empty">No matching commands</div>
+          : results.map(({ command, label, match }, index) => {
+              const indices = new Set(match!.indices);
+              const isEnabled = !command.isEnabled || command.isEnabled();
+              return (
+                <div
+                  key={command.id}
+                  ref={index === activeIndex ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  className={`quick-open-item ${index === activeIndex ? 'active' : ''} ${isEnabled ? '' : 'disabled'}`}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => run(command.id)}
+                >
+                  <span className="quick-open-name" style={{ flex: 1 }}>
+                    {Array.from(label, (char, i) => (indices.has(i) ? <mark key={i}>{char}</mark> : char))}
+                  </span>
+                  {command.keybinding && (
+                    <span className="keybinding">{formatKeybinding(command.keybinding)}</span>
+                  )}
+                </div>
+              );
+            })
+          }
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { findNode } from './service/fileUtils';
+import { useCommands } from './commands';
+
+export function EditorTabs() {
+  const { files, openEditors, selectedFileId, selectFile } = useIDE();
+  const { execute } = useCommands();
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; editorId: string } | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleClickOutside = () => setContextMenu(null);
+    window.addEventListener('click', handleClickOutside);
+    return () => window.removeEventListener('click', handleClickOutside);
+  }, []);
+
+  if (openEditors.length === 0) return null;
+
+  return (
+    <div className="editor-tabs">
+      {openEditors.map(editor => {
+        const isActive = editor.id === selectedFileId;
+        const isDirty = editor.content !== editor.savedContent;
+        const name = findNode(files, editor.id)?.name ?? 'untitled';
+
+        return (
+          <div
+            key={editor.id}
+            className={`editor-tab ${isActive ? 'active' : ''}`}
+            onClick={() => selectFile(editor.id)}
+            onMouseDown={e => {
+              // Middle click closes the tab
+              if (e.button === 1) {
+                e.preventDefault();
+                execute('file.closeEditor', editor.id);
+              }
+            }}
+            onContextMenu={e => {
+              e.preventDefault();
+              setContextMenu({ x: e.clientX, y: e.clientY, editorId: editor.id });
+            }}
+            onMouseEnter={() => setHoveredId(editor.id)}
+            onMouseLeave={() => setHoveredId(null)}
+            title={name}
+          >
+            <span>{name}</span>
+            <span
+              className="editor-tab-close"
+              onClick={e => {
+                e.stopPropagation();
+                execute('file.closeEditor', editor.id);
+              }}
+              title={isDirty ? 'Unsaved changes' : 'Close'}
+            >
+              {isDirty && hoveredId !== editor.id ? '●' : <X size={12} />}
+            </span>
+          </div>
+        );
+      })}
+
+      {contextMenu && (
+        <div
+          className="context-menu"
+          style={{ position: 'fixed', top: contextMenu.y, left: contextMenu.x }}
+        >
+          <div className="context-menu-item" onClick={() => execute('file.closeEditor', contextMenu.editorId)}>
+            Close
+          </div>
+          <div className="context-menu-item" onClick={() => execute('file.closeOtherEditors', contextMenu.editorId)}>
+            Close Others
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
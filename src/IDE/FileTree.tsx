@@ -1,6 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { ChevronDown, ChevronRight, File, Folder, Trash2, Edit2, Plus } from 'lucide-react';
+import { ChevronDown, ChevronRight, Folder, Trash2, Edit2, Plus } from 'lucide-react';
 import { useIDE } from './useIDE';
+import { detectLanguage } from './languages';
+import { useToast } from '../toasts/useToast';
+import { describeImportSummary } from './service/fileUtils';
+import { useCommands } from './commands';
 
 export interface FileNode {
   id: string;
@@ -14,6 +18,8 @@ interface FileTreeProps {
   nodes: FileNode[];
   onFileSelect: (id: string) => void;
   selectedFileId: string | null;
+  // Bumped to move keyboard focus into the tree, e.g. by `view.explorer`
+  autoFocusKey?: number;
 }
 
 const TreeItem = ({
@@ -41,14 +47,33 @@ const TreeItem = ({
   onDragOver: (e: React.DragEvent, node: FileNode) => void;
   onDrop: (e: React.DragEvent, targetNode: FileNode) => void;
 }) => {
+  const { treeReveal } = useIDE();
   const [isOpen, setIsOpen] = useState(false);
+  // Starts empty so folders mounted by an ancestor opening still see the current request
+  const [handledReveal, setHandledReveal] = useState<typeof treeReveal>(null);
   const [editValue, setEditValue] = useState(node.name);
   const [isHovered, setIsHovered] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false); // Visual feedback for drop target
   const inputRef = useRef<HTMLInputElement>(null);
+  const rowRef = useRef<HTMLDivElement>(null);
   const isFolder = node.type === 'folder';
   const isSelected = selectedFileId === node.id;
   const isEditing = editingId === node.id;
+  const language = isFolder ? null : detectLanguage(node.name);
+
+  // Quick Open and similar ask for a file to be shown: open the folders on its path
+  if (treeReveal !== handledReveal) {
+    setHandledReveal(treeReveal);
+    if (treeReveal?.ancestorIds.includes(node.id)) {
+      setIsOpen(true);
+    }
+  }
+
+  useEffect(() => {
+    if (treeReveal?.fileId === node.id) {
+      rowRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [treeReveal, node.id]);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -121,6 +146,7 @@ const TreeItem = ({
       onDrop={handleDrop}
     >
       <div
+        ref={rowRef}
         className={`tree-item ${isSelected ? 'selected' : ''}`}
         style={{
           paddingLeft: `${10 + level * 12}px`,
@@ -147,12 +173,13 @@ const TreeItem = ({
             marginRight: '6px',
             display: 'flex',
             alignItems: 'center',
-            color: isFolder ? '#dcb67a' : '#858585'
+            color: language ? language.color : '#dcb67a'
           }}
+          title={language?.label}
         >
-          {isFolder ?
-            <Folder size={14} fill="#dcb67a" strokeWidth={1} />
-          : <File size={14} strokeWidth={1.5} />}
+          {language ?
+            <language.icon size={14} strokeWidth={1.5} />
+          : <Folder size={14} fill="#dcb67a" strokeWidth={1} />}
         </span>
 
         {isEditing ?
@@ -221,11 +248,17 @@ const TreeItem = ({
   );
 };
 
-export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps) {
-  const { renameNode, deleteNode, createFile, moveNode } = useIDE();
+export function FileTree({ nodes, onFileSelect, selectedFileId, autoFocusKey = 0 }: FileTreeProps) {
+  const { renameNode, moveNode, importLocalFiles, renamingNodeId, finishRename } = useIDE();
+  const { execute } = useCommands();
+  const { showToast } = useToast();
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; nodeId: string } | null>(null);
-  const [editingId, setEditingId] = useState<string | null>(null);
   const [draggedNode, setDraggedNode] = useState<FileNode | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (autoFocusKey > 0) rootRef.current?.focus();
+  }, [autoFocusKey]);
 
   useEffect(() => {
     const handleClickOutside = () => setContextMenu(null);
@@ -241,30 +274,18 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
     if (newName && newName.trim() !== '') {
       renameNode(id, newName);
     }
-    setEditingId(null);
-  };
-
-  const handleDelete = () => {
-    if (contextMenu?.nodeId) {
-      if (confirm('Delete this item?')) {
-        deleteNode(contextMenu.nodeId);
-      }
-    }
+    finishRename();
   };
 
-  const handleStartRename = () => {
+  // Menu entries run through the command registry, like the palette and shortcuts
+  const runOnContextNode = (commandId: string) => {
     if (contextMenu?.nodeId) {
-      setEditingId(contextMenu.nodeId);
-      setContextMenu(null); // Close menu
+      execute(commandId, contextMenu.nodeId);
+      setContextMenu(null);
     }
   };
 
-  const handleCreateFile = async (parentId: string) => {
-    const name = prompt('Enter file name:');
-    if (name) {
-      await createFile(name, 'file', parentId);
-    }
-  };
+  const handleCreateFile = (parentId: string) => execute('file.newFile', parentId);
 
   const onDragStart = (e: React.DragEvent, node: FileNode) => {
     setDraggedNode(node);
@@ -272,7 +293,28 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
     // Optional: set drag image
   };
 
+  // Files dragged in from the desktop rather than a tree node
+  const isOsDrop = (e: React.DragEvent) => !draggedNode && e.dataTransfer.types.includes('Files');
+
+  const importDrop = async (e: React.DragEvent, parentId: string | null) => {
+    // Entries have to be taken synchronously, the DataTransfer is emptied after the event
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) return;
+
+    const summary = await importLocalFiles({ kind: 'drop', entries }, parentId);
+    if (summary) {
+      showToast(`Imported: ${describeImportSummary(summary)}`, 'success');
+    }
+  };
+
   const onDragOver = (e: React.DragEvent, node: FileNode) => {
+    if (isOsDrop(e)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      return;
+    }
     // Only allow drop if target is a folder and not the dragged node itself or its descendant
     if (node.type === 'folder' && draggedNode && draggedNode.id !== node.id) {
       e.preventDefault(); // Allow drop
@@ -280,7 +322,13 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
     }
   };
 
-  const onDrop = (_: React.DragEvent, targetNode: FileNode) => {
+  const onDrop = (e: React.DragEvent, targetNode: FileNode) => {
+    if (isOsDrop(e)) {
+      // Dropping onto a file imports next to it
+      importDrop(e, targetNode.type === 'folder' ? targetNode.id : targetNode.parentId);
+      return;
+    }
+
     if (draggedNode && targetNode.type === 'folder' && draggedNode.id !== targetNode.id) {
       // Check for circular dependency (dropping parent into child)
       // Simplified check: we can't easily check all descendants here without tree traversal helper,
@@ -295,6 +343,10 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
   // Handle drop on root (sidebar background)
   const onRootDrop = (e: React.DragEvent) => {
     e.preventDefault();
+    if (isOsDrop(e)) {
+      importDrop(e, null);
+      return;
+    }
     if (draggedNode) {
       moveNode(draggedNode.id, null); // Move to root
       setDraggedNode(null);
@@ -303,13 +355,17 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
 
   const onRootDragOver = (e: React.DragEvent) => {
     e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
+    e.dataTransfer.dropEffect = isOsDrop(e) ? 'copy' : 'move';
   };
 
   return (
     <div
+      ref={rootRef}
       className="sidebar"
-      style={{ position: 'relative', height: '100%' }}
+      // Focusable so clicks inside the tree give it `explorerFocus` for keybindings
+      tabIndex={-1}
+      data-focus-context="explorer"
+      style={{ position: 'relative', height: '100%', outline: 'none' }}
       onDragOver={onRootDragOver}
       onDrop={onRootDrop}
     >
@@ -322,7 +378,7 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
             onFileSelect={onFileSelect}
             selectedFileId={selectedFileId}
             onContextMenu={handleContextMenu}
-            editingId={editingId}
+            editingId={renamingNodeId}
             onRenameSubmit={handleRenameSubmit}
             onCreateFile={handleCreateFile}
             onDragStart={onDragStart}
@@ -349,7 +405,7 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
         >
           <div
             className="context-menu-item"
-            onClick={handleStartRename}
+            onClick={() => runOnContextNode('file.rename')}
             style={{
               padding: '6px 12px',
               cursor: 'pointer',
@@ -367,7 +423,7 @@ export function FileTree({ nodes, onFileSelect, selectedFileId }: FileTreeProps)
           </div>
           <div
             className="context-menu-item"
-            onClick={handleDelete}
+            onClick={() => runOnContextNode('file.delete')}
             style={{
               padding: '6px 12px',
               cursor: 'pointer',
@@ -1,19 +1,156 @@
 import { createContext } from 'react';
 import type { FileNode } from './FileTree';
 import type { TerminalHandle } from './TerminalComponent';
+import type {
+  FileLocation,
+  FileRevision,
+  ImportSummary,
+  KeybindingOverrides,
+  KeybindingRule,
+  ProcessInfo,
+  ProjectRecord,
+  ServerInfo
+} from './service/types';
+import type { ConflictPolicy } from './service/zipArchive';
+import type { LocalFileSource } from './service/localFiles';
+import type { ReplaceSelection, SearchQuery, SearchResult } from './service/search';
+import type { BuildConfig, BuildSummary } from './service/bundler';
+import type { RunnerMapping } from './service/runners';
+import type { RunConfiguration } from './service/runConfigurations';
+
+export interface OpenEditor {
+  id: string;
+  content: string;
+  savedContent: string;
+}
+
+export interface DiffView {
+  fileId: string;
+  title: string;
+  // Left side; the right side is always the live buffer of `fileId`
+  original: string;
+  // Set when comparing against a stored revision (enables restore)
+  revisionId: number | null;
+}
+
+// Terminal tab of an npm script or install; the shell tab is always there and has no entry
+export interface TerminalTab {
+  id: string;
+  kind: 'script' | 'install';
+  title: string;
+  processId: string | null;
+  // Set once the process has exited
+  exitCode: number | null;
+}
+
+// Position the editor should jump to once `fileId` is the active tab
+export interface RevealTarget {
+  fileId: string;
+  line: number;
+  column: number;
+}
+
+// Asks `FileTree` to expand the folders above `fileId` and scroll it into view
+export interface TreeReveal {
+  fileId: string;
+  ancestorIds: string[];
+}
 
 interface IDEContextType {
+  projects: ProjectRecord[];
+  activeProjectId: string | null;
   files: FileNode[];
   selectedFileId: string | null;
   fileContent: string;
+  openEditors: OpenEditor[];
+  // Per-file language mode chosen by the user, keyed by file id (values are `LANGUAGES` keys)
+  languageOverrides: Record<string, string>;
+  // Revisions of the selected file, newest first
+  revisions: FileRevision[];
+  historyRetention: number;
+  // User keybindings by command id, applied over the defaults in `createIDECommands`
+  keybindings: KeybindingOverrides;
+  // User runner mappings by file extension, consulted before `DEFAULT_RUNNERS`
+  runners: RunnerMapping[];
+  diffView: DiffView | null;
+  revealTarget: RevealTarget | null;
+  treeReveal: TreeReveal | null;
+  // Node whose name is being edited inline in `FileTree`
+  renamingNodeId: string | null;
+  // Every file of the project with its path, for pickers
+  filePaths: { id: string; path: string }[];
+  // Most recently opened first
+  recentFileIds: string[];
+  canUndoReplace: boolean;
   isReady: boolean;
+  // Where Run executes: the WebContainer, or the worker fallback when it failed to boot
+  runtime: 'webcontainer' | 'worker' | null;
+  runtimeError: string | null;
   isRunning: boolean;
+  processes: ProcessInfo[];
+  // `scripts` of the root package.json
+  packageScripts: Record<string, string>;
+  terminalTabs: TerminalTab[];
+  // `null` shows the shell
+  activeTerminalTabId: string | null;
+  isInstalling: boolean;
+  // Last build settings of the active project
+  buildConfig: BuildConfig | null;
+  isBuilding: boolean;
+  // Named run configurations of the active project
+  runConfigurations: RunConfiguration[];
+  // What Run starts; `null` runs the selected file
+  activeRunConfigurationId: string | null;
+  servers: ServerInfo[];
+  // Server shown in the preview pane; falls back to the first ready one when the chosen port closes
+  previewServer: ServerInfo | null;
+  selectPreviewPort: (port: number) => void;
+  runScript: (name: string) => Promise<void>;
+  installDependencies: () => Promise<void>;
+  // Resolves to null when the build could not start
+  build: (config: BuildConfig) => Promise<BuildSummary | null>;
+  setActiveTerminalTab: (id: string | null) => void;
+  closeTerminalTab: (id: string) => void;
+  registerTaskTerminal: (id: string, handle: TerminalHandle | null) => void;
   isLoading: boolean;
   error: string | null;
+  canDownloadBackup: boolean;
   terminalRef: React.RefObject<TerminalHandle> | null;
-  selectFile: (id: string | null) => void;
+  getFilePath: (id: string) => string | null;
+  selectFile: (id: string | null) => Promise<void>;
+  openFileAt: (id: string, line: number, column?: number) => Promise<void>;
+  // For `path:line:column` text in process output, e.g. stack traces; null outside the project
+  resolveFileLocation: (path: string, line: number, column: number) => FileLocation | null;
+  // Opens the file and reveals it in the tree
+  revealFile: (id: string) => Promise<void>;
+  startRename: (id: string) => void;
+  finishRename: () => void;
+  searchFiles: (query: SearchQuery) => Promise<{ results: SearchResult[]; truncated: boolean }>;
+  // Bumped whenever stored file contents change, for views derived from them
+  contentVersion: number;
+  // Files with unsaved edits are left alone and reported in `skippedFileIds`
+  replaceInFiles: (
+    query: SearchQuery,
+    replacement: string,
+    selection: ReplaceSelection[]
+  ) => Promise<{ files: number; replacements: number; skippedFileIds: string[] }>;
+  undoReplace: () => Promise<void>;
   updateFileContent: (content: string) => void;
-  saveFile: () => Promise<void>;
+  // Whether the active file was written
+  saveFile: () => Promise<boolean>;
+  // How many files with unsaved edits were written; 0 when there were none or the save failed
+  saveAllFiles: () => Promise<number>;
+  closeEditor: (id: string) => void;
+  closeOtherEditors: (id: string) => void;
+  setLanguageOverride: (id: string, languageKey: string | null) => void;
+  openRevisionDiff: (revision: FileRevision) => Promise<void>;
+  compareWithSaved: () => void;
+  closeDiff: () => void;
+  restoreRevision: (revisionId: number) => Promise<void>;
+  setHistoryRetention: (limit: number) => Promise<void>;
+  // `null` restores the command's default binding
+  setKeybinding: (commandId: string, rule: KeybindingRule | null) => Promise<void>;
+  setRunners: (runners: RunnerMapping[]) => Promise<void>;
   createFile: (
     name: string,
     type: 'file' | 'folder',
@@ -22,8 +159,25 @@ interface IDEContextType {
   renameNode: (id: string, newName: string) => Promise<void>;
   moveNode: (id: string, newParentId: string | null) => Promise<void>;
   deleteNode: (id: string) => Promise<void>;
+  // Starts the active run configuration, or the selected file
   run: () => Promise<void>;
+  selectRunConfiguration: (id: string | null) => Promise<void>;
+  // Creates or updates by id
+  saveRunConfiguration: (config: RunConfiguration) => Promise<void>;
+  deleteRunConfiguration: (id: string) => Promise<void>;
+  stop: () => void;
+  killProcess: (id: string) => void;
+  switchProject: (id: string) => Promise<void>;
+  createProject: (name: string) => Promise<void>;
+  renameProject: (id: string, newName: string) => Promise<void>;
+  duplicateProject: (id: string, name: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  exportProject: () => Promise<void>;
+  importProject: (file: File, policy: ConflictPolicy) => Promise<ImportSummary | null>;
+  importLocalFiles: (source: LocalFileSource, parentId: string | null) => Promise<ImportSummary | null>;
+  openLocalFolder: (policy: ConflictPolicy) => Promise<ImportSummary | null>;
   reset: () => Promise<void>;
+  downloadBackup: () => Promise<void>;
 }
 
 export const IDEContext = createContext<IDEContextType | null>(null);
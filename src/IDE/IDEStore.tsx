@@ -3,21 +3,95 @@ import * as db from './db';
 import type { TerminalHandle } from './TerminalComponent';
 import type { FileNode } from './FileTree';
 import { useWebContainer } from './useWebContainer';
-import { createIDEService } from './service/ideService';
-import { IDEContext } from './IDEContext';
+import { ContainerMirrorError, createIDEService, DEFAULT_SHELL } from './service/ideService';
+import { useToast } from '../toasts/useToast';
+import { DEFAULT_SYNC_IGNORE, type ExternalChanges } from './service/containerSync';
+import type {
+  FileRevision,
+  ImportSummary,
+  KeybindingOverrides,
+  KeybindingRule,
+  ProcessInfo,
+  ProjectFile,
+  ProjectRecord,
+  ServerInfo,
+  ShellOptions,
+  ShellSession
+} from './service/types';
+import { useMonacoProject } from './useMonacoProject';
+import type { ConflictPolicy } from './service/zipArchive';
+import type { LocalFileSource } from './service/localFiles';
+import {
+  collectNodeIds,
+  findAncestorIds,
+  findNode,
+  parsePackageScripts,
+  parseTimestamp
+} from './service/fileUtils';
+import { IDEContext, type DiffView, type OpenEditor, type RevealTarget, type TerminalTab, type TreeReveal } from './IDEContext';
+import type { ReplaceSelection, SearchQuery } from './service/search';
+import type { BuildConfig } from './service/bundler';
+import type { RunnerMapping } from './service/runners';
+import type { RunConfiguration } from './service/runConfigurations';
 
-export function IDEProvider({ children }: { children: ReactNode }) {
+const MAX_RECENT_FILES = 50;
+
+export function IDEProvider({
+  children,
+  shell = DEFAULT_SHELL,
+  syncIgnore = DEFAULT_SYNC_IGNORE
+}: {
+  children: ReactNode;
+  // Keep this referentially stable, a new object restarts the shell
+  shell?: ShellOptions;
+  // Container paths never mirrored into the DB; keep this referentially stable as well
+  syncIgnore?: string[];
+}) {
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [files, setFiles] = useState<FileNode[]>([]);
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
-  const [fileContent, setFileContent] = useState('');
+  const [openEditors, setOpenEditors] = useState<OpenEditor[]>([]);
+  const [projectFiles, setProjectFiles] = useState<ProjectFile[]>([]);
+  const [contentVersion, setContentVersion] = useState(0);
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [historyRetention, setHistoryRetentionState] = useState(db.DEFAULT_HISTORY_RETENTION);
+  const [keybindings, setKeybindings] = useState<KeybindingOverrides>({});
+  const [runners, setRunnersState] = useState<RunnerMapping[]>([]);
+  const [buildConfig, setBuildConfig] = useState<BuildConfig | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [runConfigurations, setRunConfigurations] = useState<RunConfiguration[]>([]);
+  const [activeRunConfigurationId, setActiveRunConfigurationId] = useState<string | null>(null);
+  const [diffView, setDiffView] = useState<DiffView | null>(null);
+  const [revealTarget, setRevealTarget] = useState<RevealTarget | null>(null);
+  const [treeReveal, setTreeReveal] = useState<TreeReveal | null>(null);
+  const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null);
+  const [recentFileIds, setRecentFileIds] = useState<string[]>([]);
+  const [canUndoReplace, setCanUndoReplace] = useState(false);
+  const [languageOverrides, setLanguageOverrides] = useState<Record<string, string>>({});
   const [isDbReady, setIsDbReady] = useState(false);
-  const [isRunning, setIsRunning] = useState(false);
+  const [processes, setProcesses] = useState<ProcessInfo[]>([]);
+  const [servers, setServers] = useState<ServerInfo[]>([]);
+  const [previewPort, setPreviewPort] = useState<number | null>(null);
+  const [terminalTabs, setTerminalTabs] = useState<TerminalTab[]>([]);
+  const [activeTerminalTabId, setActiveTerminalTab] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [canDownloadBackup, setCanDownloadBackup] = useState(false);
 
   const terminalRef = useRef<TerminalHandle>(null);
+  const { showToast } = useToast();
+  // Task output that arrives before its tab's terminal has mounted is buffered here
+  const taskTerminals = useRef(new Map<string, TerminalHandle>());
+  const pendingTaskOutput = useRef(new Map<string, string[]>());
+  const openEditorsRef = useRef(openEditors);
+  useEffect(() => {
+    openEditorsRef.current = openEditors;
+  });
 
-  const { isReady: isWcReady, mount, writeFile, webContainer } = useWebContainer();
+  const { isReady: isWcReady, error: wcError, mount, clearWorkdir, writeFile, webContainer } = useWebContainer();
+  // Without a container (boot failed), files run in a browser worker instead
+  const runtime = isWcReady ? 'webcontainer' : wcError ? 'worker' : null;
 
   const service = useMemo(() => {
     return createIDEService({
@@ -26,147 +100,932 @@ export function IDEProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  // Mirrors the service's file contents and bumps `contentVersion` so an open search re-runs
+  const syncProjectFiles = useCallback(() => {
+    setProjectFiles(service.getProjectFiles());
+    setContentVersion(version => version + 1);
+  }, [service]);
+
   const fetchFiles = useCallback(async () => {
     try {
       setIsLoading(true);
       const tree = await service.loadFiles(isWcReady, mount);
       setFiles(tree);
+      syncProjectFiles();
     } catch (err) {
       setError(String(err));
     } finally {
       setIsLoading(false);
     }
-  }, [service, isWcReady, mount]);
+  }, [service, isWcReady, mount, syncProjectFiles]);
+
+  // Reloads the tree from SQLite for changes the container already has
+  const refreshTree = useCallback(async () => {
+    setFiles(await service.loadFiles(false, mount));
+    syncProjectFiles();
+  }, [service, mount, syncProjectFiles]);
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await service.listProjects());
+    setActiveProjectId(service.getActiveProjectId());
+  }, [service]);
 
   useEffect(() => {
     db.initDb()
       .then(async () => {
-        setIsDbReady(true);
         await service.initialize();
+        setIsDbReady(true);
+        setHistoryRetentionState(await service.getHistoryRetention());
+        setKeybindings(await service.getKeybindings());
+        setRunnersState(await service.getRunners());
+        await refreshProjects();
+        setBuildConfig(await service.getBuildConfig());
+        setRunConfigurations(await service.listRunConfigurations());
+        setActiveRunConfigurationId(await service.getActiveRunConfigurationId());
         await fetchFiles();
       })
-      .catch((err: unknown) => setError(`DB Init Failed: ${err}`));
-  }, [service, fetchFiles]);
+      .catch((err: unknown) => {
+        setError(`DB Init Failed: ${err instanceof Error ? err.message : err}`);
+        // A failed migration leaves the data untouched, let the user keep a copy
+        setCanDownloadBackup(err instanceof db.MigrationError);
+      });
+  }, [service, fetchFiles, refreshProjects]);
 
   useEffect(() => {
-    if (isWcReady && isDbReady) {
-      fetchFiles().then(() => {
-        terminalRef.current?.write('\x1b[32m✓ Node.js Environment Ready\x1b[0m\r\n');
-      });
+    if (isWcReady && isDbReady && webContainer) {
+      fetchFiles()
+        .then(() => service.restoreDependencies(webContainer))
+        .then(() => {
+          terminalRef.current?.write('\x1b[32m✓ Node.js Environment Ready\x1b[0m\r\n');
+        });
     }
-  }, [isWcReady, isDbReady, fetchFiles]);
+  }, [service, isWcReady, isDbReady, webContainer, fetchFiles]);
 
   useEffect(() => {
-    if (!selectedFileId) {
-      setFileContent('');
-      return;
-    }
-    service.getFileContent(selectedFileId).then(content => {
-      setFileContent(content);
+    if (!wcError) return;
+    terminalRef.current?.write(
+      `\x1b[33mWebContainer unavailable: ${wcError.message}\r\n` +
+        'Files run in a browser worker instead (no npm packages, servers or shell).\x1b[0m\r\n'
+    );
+  }, [wcError]);
+
+  useEffect(() => service.onProcessesChange(setProcesses), [service]);
+
+  useEffect(() => {
+    if (!isWcReady || !webContainer) return;
+    return service.watchServers(webContainer, setServers);
+  }, [service, isWcReady, webContainer]);
+
+  const previewServer =
+    servers.find(server => server.port === previewPort) ?? servers.find(server => server.ready) ?? null;
+
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    if (!isWcReady || !webContainer || !terminal) return;
+
+    let session: ShellSession | null = null;
+    let disposed = false;
+    const unsubscribers: Array<() => void> = [];
+
+    service
+      .startShell(webContainer, terminal.getDimensions(), shell)
+      .then(started => {
+        if (disposed) {
+          started.kill();
+          return;
+        }
+        session = started;
+        unsubscribers.push(
+          terminal.onInput(data => started.write(data)),
+          terminal.onResize(dimensions => started.resize(dimensions))
+        );
+        started.exit.then(exitCode => {
+          if (!disposed) {
+            terminal.write(`\r\n\x1b[1;33mShell exited with code ${exitCode}\x1b[0m\r\n`);
+          }
+        });
+      })
+      .catch((err: unknown) => {
+        terminal.write(`\x1b[1;31mFailed to start shell: ${err}\x1b[0m\r\n`);
+      });
+
+    return () => {
+      disposed = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      session?.kill();
+    };
+  }, [service, isWcReady, webContainer, shell]);
+
+  useEffect(() => {
+    if (!isWcReady || !webContainer || !isDbReady) return;
+
+    const isDirty = (id: string) =>
+      openEditorsRef.current.some(editor => editor.id === id && editor.content !== editor.savedContent);
+
+    const applyChanges = async ({ modified, deleted, keptDirty }: ExternalChanges) => {
+      const warn = (message: string) => terminalRef.current?.write(`\x1b[1;33m${message}\x1b[0m\r\n`);
+
+      modified
+        .filter(({ id }) => isDirty(id))
+        .forEach(({ id }) =>
+          warn(`${service.getFilePath(id)} changed on disk, your unsaved edits were kept`)
+        );
+      keptDirty.forEach(id =>
+        warn(`${service.getFilePath(id)} was deleted on disk, save to restore it`)
+      );
+
+      setOpenEditors(prev =>
+        prev
+          .filter(editor => !deleted.includes(editor.id))
+          .map(editor => {
+            const change = modified.find(m => m.id === editor.id);
+            if (!change) return editor;
+            // The DB now holds the container's version; local edits stay in the buffer
+            return editor.content === editor.savedContent ?
+                { ...editor, content: change.content, savedContent: change.content }
+              : { ...editor, savedContent: change.content };
+          })
+      );
+      setSelectedFileId(prev => (prev && deleted.includes(prev) ? null : prev));
+
+      await refreshTree();
+    };
+
+    return service.startContainerSync(webContainer, {
+      ignore: syncIgnore,
+      isDirty,
+      onChanges: changes => {
+        applyChanges(changes).catch((err: unknown) => console.error('Failed to apply file changes:', err));
+      }
     });
+  }, [service, isWcReady, webContainer, isDbReady, refreshTree, syncIgnore]);
+
+  const activeEditor = openEditors.find(editor => editor.id === selectedFileId) ?? null;
+  const hasDirtyEditors = openEditors.some(editor => editor.content !== editor.savedContent);
+
+  const buffers = useMemo(
+    () => Object.fromEntries(openEditors.map(editor => [editor.id, editor.content])),
+    [openEditors]
+  );
+
+  useMonacoProject({
+    files: projectFiles,
+    buffers,
+    loadTypeDeclarations: service.loadTypeDeclarations,
+    webContainer
+  });
+
+  useEffect(() => {
+    if (!hasDirtyEditors) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasDirtyEditors]);
+
+  useEffect(() => {
+    if (!selectedFileId) return;
+    service
+      .getFileRevisions(selectedFileId)
+      .then(setRevisions)
+      .catch((err: unknown) => console.error('Failed to load file history:', err));
   }, [service, selectedFileId]);
 
-  const selectFile = (id: string | null) => {
+  const selectFile = async (id: string | null) => {
     setSelectedFileId(id);
+    if (id) {
+      setRecentFileIds(prev => [id, ...prev.filter(recentId => recentId !== id)].slice(0, MAX_RECENT_FILES));
+    }
+    if (!id || openEditors.some(editor => editor.id === id)) return;
+
+    try {
+      const content = await service.getFileContent(id);
+      setOpenEditors(prev =>
+        prev.some(editor => editor.id === id) ? prev : (
+          [...prev, { id, content, savedContent: content }]
+        )
+      );
+    } catch (err) {
+      console.error(err);
+      setError('Failed to open file');
+    }
+  };
+
+  const openFileAt = async (id: string, line: number, column = 1) => {
+    await selectFile(id);
+    setRevealTarget({ fileId: id, line, column });
+  };
+
+  const resolveFileLocation = (path: string, line: number, column: number) =>
+    service.resolveFileLocation(path, line, column, webContainer?.workdir ?? null);
+
+  const revealFile = async (id: string) => {
+    await selectFile(id);
+    setTreeReveal({ fileId: id, ancestorIds: findAncestorIds(files, id) });
+  };
+
+  const filePaths = useMemo(() => projectFiles.map(({ id, path }) => ({ id, path })), [projectFiles]);
+
+  const searchFiles = useCallback((query: SearchQuery) => service.search(query), [service]);
+
+  // Shows contents written outside the editor in the affected tabs and refreshes their history
+  const reloadEditors = async (ids: string[]) => {
+    const contents = new Map(
+      await Promise.all(ids.map(async id => [id, await service.getFileContent(id)] as const))
+    );
+    setOpenEditors(prev =>
+      prev.map(editor => {
+        const content = contents.get(editor.id);
+        if (content === undefined) return editor;
+        // Local edits stay in the buffer, they now differ from the stored content
+        return editor.content === editor.savedContent ?
+            { ...editor, content, savedContent: content }
+          : { ...editor, savedContent: content };
+      })
+    );
+    syncProjectFiles();
+    if (selectedFileId && contents.has(selectedFileId)) {
+      setRevisions(await service.getFileRevisions(selectedFileId));
+    }
+  };
+
+  const replaceInFiles = async (query: SearchQuery, replacement: string, selection: ReplaceSelection[]) => {
+    const skippedFileIds = selection
+      .filter(({ fileId }) =>
+        openEditors.some(editor => editor.id === fileId && editor.content !== editor.savedContent)
+      )
+      .map(({ fileId }) => fileId);
+
+    const { fileIds, replacements } = await service.replaceInFiles(
+      query,
+      replacement,
+      selection.filter(({ fileId }) => !skippedFileIds.includes(fileId)),
+      isWcReady,
+      writeFile
+    );
+    await reloadEditors(fileIds);
+    setCanUndoReplace(service.canUndoReplace());
+    return { files: fileIds.length, replacements, skippedFileIds };
+  };
+
+  const undoReplace = async () => {
+    const fileIds = await service.undoReplace(isWcReady, writeFile);
+    await reloadEditors(fileIds);
+    setCanUndoReplace(service.canUndoReplace());
   };
 
   const updateFileContent = (content: string) => {
-    setFileContent(content);
+    if (!selectedFileId) return;
+    setOpenEditors(prev =>
+      prev.map(editor => (editor.id === selectedFileId ? { ...editor, content } : editor))
+    );
+  };
+
+  // False when a write failed; the error is shown instead
+  const saveEditors = async (editors: OpenEditor[]) => {
+    try {
+      for (const { id, content } of editors) {
+        await service.saveFile(id, content, isWcReady, writeFile);
+      }
+      syncProjectFiles();
+
+      const saved = new Map(editors.map(editor => [editor.id, editor.content]));
+      setOpenEditors(prev =>
+        prev.map(editor => (saved.has(editor.id) ? { ...editor, savedContent: saved.get(editor.id)! } : editor))
+      );
+      if (selectedFileId && saved.has(selectedFileId)) {
+        setRevisions(await service.getFileRevisions(selectedFileId));
+      }
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save file');
+      return false;
+    }
   };
 
   const saveFile = async () => {
+    if (!activeEditor) return false;
+    return saveEditors([activeEditor]);
+  };
+
+  const saveAllFiles = async () => {
+    const dirty = openEditors.filter(editor => editor.content !== editor.savedContent);
+    if (dirty.length === 0) return 0;
+    return (await saveEditors(dirty)) ? dirty.length : 0;
+  };
+
+  // Drops the given editors without prompting and activates a neighbouring tab if needed
+  const removeEditors = (ids: string[], nextActiveId?: string) => {
+    const remaining = openEditors.filter(editor => !ids.includes(editor.id));
+    setOpenEditors(remaining);
+
+    if (nextActiveId !== undefined) {
+      setSelectedFileId(nextActiveId);
+    } else if (selectedFileId && ids.includes(selectedFileId)) {
+      const index = openEditors.findIndex(editor => editor.id === selectedFileId);
+      setSelectedFileId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+    }
+  };
+
+  const confirmDiscard = (editors: OpenEditor[]) => {
+    const dirty = editors.filter(editor => editor.content !== editor.savedContent);
+    if (dirty.length === 0) return true;
+
+    const names = dirty.map(editor => findNode(files, editor.id)?.name ?? editor.id).join(', ');
+    return confirm(`Discard unsaved changes in ${names}?`);
+  };
+
+  const closeEditor = (id: string) => {
+    const editor = openEditors.find(e => e.id === id);
+    if (!editor || !confirmDiscard([editor])) return;
+    removeEditors([id]);
+  };
+
+  const closeOtherEditors = (id: string) => {
+    const others = openEditors.filter(editor => editor.id !== id);
+    if (!confirmDiscard(others)) return;
+    removeEditors(
+      others.map(editor => editor.id),
+      id
+    );
+  };
+
+  const openRevisionDiff = async (revision: FileRevision) => {
+    try {
+      const original = await service.getRevisionContent(revision.id);
+      setDiffView({
+        fileId: revision.fileId,
+        title: `Revision from ${parseTimestamp(revision.created_at).toLocaleString()} ↔ Current`,
+        original,
+        revisionId: revision.id
+      });
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load revision');
+    }
+  };
+
+  const compareWithSaved = () => {
+    if (!activeEditor) return;
+    setDiffView({
+      fileId: activeEditor.id,
+      title: 'Last saved ↔ Unsaved buffer',
+      original: activeEditor.savedContent,
+      revisionId: null
+    });
+  };
+
+  const closeDiff = () => {
+    setDiffView(null);
+  };
+
+  // Restores into the buffer rather than the DB, so the user reviews and saves it like any edit
+  const restoreRevision = async (revisionId: number) => {
     if (!selectedFileId) return;
 
     try {
-      await service.saveFile(selectedFileId, fileContent, isWcReady, writeFile);
+      const content = await service.getRevisionContent(revisionId);
+      setOpenEditors(prev =>
+        prev.map(editor => (editor.id === selectedFileId ? { ...editor, content } : editor))
+      );
+      setDiffView(null);
     } catch (err) {
       console.error(err);
-      setError('Failed to save file');
+      setError('Failed to restore revision');
     }
   };
 
+  const setHistoryRetention = async (limit: number) => {
+    try {
+      await service.setHistoryRetention(limit);
+      setHistoryRetentionState(await service.getHistoryRetention());
+    } catch (err) {
+      console.error(err);
+      setError('Failed to update history retention');
+    }
+  };
+
+  const setKeybinding = async (commandId: string, rule: KeybindingRule | null) => {
+    const next = { ...keybindings };
+    if (rule) {
+      next[commandId] = rule;
+    } else {
+      delete next[commandId];
+    }
+
+    try {
+      await service.setKeybindings(next);
+      setKeybindings(next);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save keybindings');
+    }
+  };
+
+  const setRunners = async (next: RunnerMapping[]) => {
+    try {
+      await service.setRunners(next);
+      setRunnersState(next);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save runners');
+    }
+  };
+
+  const setLanguageOverride = (id: string, languageKey: string | null) => {
+    setLanguageOverrides(prev => {
+      const next = { ...prev };
+      if (languageKey) {
+        next[id] = languageKey;
+      } else {
+        delete next[id];
+      }
+      return next;
+    });
+  };
+
+  // Structural changes are mirrored into the container one by one, so these refresh without a remount.
+  // The DB already holds the change when only the container failed, so the tree still refreshes.
+  const handleNodeError = async (err: unknown, message: string) => {
+    if (err instanceof ContainerMirrorError) {
+      showToast(err.message, 'error');
+      await refreshTree();
+      return;
+    }
+    console.error(err);
+    setError(message);
+  };
+
+  const containerOrNull = isWcReady ? webContainer : null;
+
   const createFile = async (
     name: string,
     type: 'file' | 'folder',
     explicitParentId?: string | null
   ) => {
     try {
-      await service.createNode(name, type, selectedFileId, explicitParentId);
-      await fetchFiles();
-    } catch {
-      setError(`Failed to create ${type}`);
+      await service.createNode(name, type, selectedFileId, explicitParentId, containerOrNull);
+      await refreshTree();
+    } catch (err) {
+      await handleNodeError(err, `Failed to create ${type}`);
     }
   };
 
   const renameNode = async (id: string, newName: string) => {
     try {
-      await service.renameNode(id, newName);
-      await fetchFiles();
+      await service.renameNode(id, newName, containerOrNull);
+      await refreshTree();
     } catch (err) {
-      console.error(err);
-      setError('Failed to rename');
+      await handleNodeError(err, 'Failed to rename');
     }
   };
 
   const moveNode = async (id: string, newParentId: string | null) => {
     try {
-      await service.moveNode(id, newParentId);
-      await fetchFiles();
+      await service.moveNode(id, newParentId, containerOrNull);
+      await refreshTree();
     } catch (err) {
-      console.error(err);
-      setError('Failed to move');
+      await handleNodeError(err, 'Failed to move');
     }
   };
 
   const deleteNode = async (id: string) => {
+    const node = findNode(files, id);
     try {
-      await service.deleteNode(id);
-      if (selectedFileId === id) {
-        selectFile(null);
+      await service.deleteNode(id, containerOrNull);
+      if (node) {
+        removeEditors(collectNodeIds(node));
       }
-      await fetchFiles();
+      await refreshTree();
+    } catch (err) {
+      if (node && err instanceof ContainerMirrorError) {
+        removeEditors(collectNodeIds(node));
+      }
+      await handleNodeError(err, 'Failed to delete');
+    }
+  };
+
+  const packageScripts = useMemo(
+    () => parsePackageScripts(projectFiles.find(file => file.path === 'package.json')?.content ?? null),
+    [projectFiles]
+  );
+  const isInstalling = terminalTabs.some(tab => tab.kind === 'install' && tab.exitCode === null);
+
+  const writeToTask = (tabId: string, data: string) => {
+    const terminal = taskTerminals.current.get(tabId);
+    if (terminal) {
+      terminal.write(data);
+    } else {
+      pendingTaskOutput.current.set(tabId, [...(pendingTaskOutput.current.get(tabId) ?? []), data]);
+    }
+  };
+
+  const registerTaskTerminal = useCallback((id: string, handle: TerminalHandle | null) => {
+    if (!handle) {
+      taskTerminals.current.delete(id);
+      return;
+    }
+    taskTerminals.current.set(id, handle);
+    pendingTaskOutput.current.get(id)?.forEach(data => handle.write(data));
+    pendingTaskOutput.current.delete(id);
+  }, []);
+
+  const updateTerminalTab = (id: string, changes: Partial<TerminalTab>) => {
+    setTerminalTabs(prev => prev.map(tab => (tab.id === id ? { ...tab, ...changes } : tab)));
+  };
+
+  // Runs npm in a new terminal tab and shows it
+  const runNpmTask = async (kind: TerminalTab['kind'], args: string[]) => {
+    if (!isWcReady || !webContainer) return;
+
+    const id = crypto.randomUUID();
+    setTerminalTabs(prev => [...prev, { id, kind, title: `npm ${args.join(' ')}`, processId: null, exitCode: null }]);
+    setActiveTerminalTab(id);
+
+    const task = await service.runTask(webContainer, 'npm', args, {
+      write: data => writeToTask(id, data),
+      // The tab shares the panel with the shell, so it gets the same size
+      dimensions: terminalRef.current?.getDimensions()
+    });
+    if (!task) {
+      updateTerminalTab(id, { exitCode: 1 });
+      return;
+    }
+    updateTerminalTab(id, { processId: task.info.id });
+    const exitCode = await task.exit;
+
+    if (kind === 'install' && exitCode === 0) {
+      // Keep the tab marked as running until the snapshot is stored
+      writeToTask(id, '\x1b[1;36m➤ Saving node_modules snapshot...\x1b[0m\r\n');
+      try {
+        await service.snapshotDependencies(webContainer);
+        writeToTask(id, '\x1b[32m✓ node_modules will be restored on the next reload\x1b[0m\r\n');
+      } catch (err) {
+        writeToTask(id, `\x1b[1;31mCould not save node_modules snapshot: ${err}\x1b[0m\r\n`);
+      }
+    }
+    updateTerminalTab(id, { exitCode });
+  };
+
+  const runScript = (name: string) => runNpmTask('script', ['run', name]);
+
+  const installDependencies = async () => {
+    if (isInstalling) return;
+    await runNpmTask('install', ['install']);
+  };
+
+  const build = async (config: BuildConfig) => {
+    if (isBuilding) return null;
+
+    setIsBuilding(true);
+    // Messages go to the main terminal
+    setActiveTerminalTab(null);
+    try {
+      const summary = await service.build(config, isWcReady ? webContainer : null);
+      setBuildConfig(config);
+      if (summary.outputs.length > 0) {
+        await fetchFiles();
+        await reloadCleanEditors();
+      }
+      return summary;
     } catch (err) {
       console.error(err);
-      setError('Failed to delete');
+      setError(`Build failed: ${err instanceof Error ? err.message : err}`);
+      return null;
+    } finally {
+      setIsBuilding(false);
     }
   };
 
-  const run = async () => {
-    if (!selectedFileId || !isWcReady || !webContainer) return;
+  const closeTerminalTab = (id: string) => {
+    const tab = terminalTabs.find(t => t.id === id);
+    if (tab?.processId && tab.exitCode === null) {
+      service.killProcess(tab.processId);
+    }
+    pendingTaskOutput.current.delete(id);
+    setTerminalTabs(prev => prev.filter(t => t.id !== id));
+    if (activeTerminalTabId === id) {
+      setActiveTerminalTab(null);
+    }
+  };
+
+  const selectRunConfiguration = async (id: string | null) => {
+    try {
+      await service.setActiveRunConfigurationId(id);
+      setActiveRunConfigurationId(id);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to select run configuration');
+    }
+  };
 
-    setIsRunning(true);
+  const saveRunConfiguration = async (config: RunConfiguration) => {
     try {
+      await service.saveRunConfiguration(config);
+      setRunConfigurations(await service.listRunConfigurations());
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save run configuration');
+    }
+  };
+
+  const deleteRunConfiguration = async (id: string) => {
+    try {
+      await service.deleteRunConfiguration(id);
+      setRunConfigurations(prev => prev.filter(config => config.id !== id));
+      if (activeRunConfigurationId === id) setActiveRunConfigurationId(null);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to delete run configuration');
+    }
+  };
+
+  const run = async () => {
+    const config = runConfigurations.find(c => c.id === activeRunConfigurationId);
+    if (config) {
+      if (runtime === 'webcontainer' && webContainer) {
+        await service.runConfiguration(config, webContainer);
+      } else if (runtime === 'worker') {
+        await service.runConfigurationInWorker(config);
+      }
+      return;
+    }
+
+    if (!selectedFileId) return;
+    if (runtime === 'webcontainer' && webContainer) {
       await service.runFile(selectedFileId, isWcReady, webContainer);
-    } finally {
-      setIsRunning(false);
+    } else if (runtime === 'worker') {
+      await service.runFileInWorker(selectedFileId);
+    }
+  };
+
+  const stop = () => {
+    service.killAllProcesses();
+  };
+
+  const killProcess = (id: string) => {
+    service.killProcess(id);
+  };
+
+  // Drops the current buffers and remounts the container with the now active project's files
+  const remountProject = async () => {
+    setOpenEditors([]);
+    setSelectedFileId(null);
+    setRecentFileIds([]);
+    await service.withSyncPaused(clearWorkdir);
+    await fetchFiles();
+    if (isWcReady && webContainer) {
+      await service.restoreDependencies(webContainer);
     }
+    setCanUndoReplace(service.canUndoReplace());
+    setBuildConfig(await service.getBuildConfig());
+    setRunConfigurations(await service.listRunConfigurations());
+    setActiveRunConfigurationId(await service.getActiveRunConfigurationId());
+    await refreshProjects();
+  };
+
+  const switchProject = async (id: string) => {
+    if (id === activeProjectId || !confirmDiscard(openEditors)) return;
+
+    try {
+      await service.openProject(id);
+      await remountProject();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to switch project');
+    }
+  };
+
+  const createProject = async (name: string) => {
+    if (!confirmDiscard(openEditors)) return;
+
+    try {
+      await service.openProject(await service.createProject(name));
+      await remountProject();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to create project');
+    }
+  };
+
+  const renameProject = async (id: string, newName: string) => {
+    try {
+      await service.renameProject(id, newName);
+      await refreshProjects();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to rename project');
+    }
+  };
+
+  const duplicateProject = async (id: string, name: string) => {
+    if (!confirmDiscard(openEditors)) return;
+
+    try {
+      await service.openProject(await service.duplicateProject(id, name));
+      await remountProject();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to duplicate project');
+    }
+  };
+
+  const deleteProject = async (id: string) => {
+    const isActive = id === activeProjectId;
+    if (isActive && !confirmDiscard(openEditors)) return;
+
+    try {
+      await service.deleteProject(id);
+      if (isActive) {
+        await remountProject();
+      } else {
+        await refreshProjects();
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Failed to delete project');
+    }
+  };
+
+  // Picks up content written behind the editor's back (imports, sync) for tabs without local edits
+  const reloadCleanEditors = async () => {
+    const reloaded = await Promise.all(
+      openEditors.map(async editor => {
+        if (editor.content !== editor.savedContent) return editor;
+        const content = await service.getFileContent(editor.id);
+        return { ...editor, content, savedContent: content };
+      })
+    );
+    setOpenEditors(prev =>
+      prev.map(editor => {
+        const fresh = reloaded.find(r => r.id === editor.id);
+        // Keep edits made while we were reading
+        return fresh && editor.content === editor.savedContent ? fresh : editor;
+      })
+    );
+  };
+
+  const exportProject = async () => {
+    const project = projects.find(p => p.id === activeProjectId);
+    try {
+      await service.exportProject(`${project?.name ?? 'project'}.zip`);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to export project');
+    }
+  };
+
+  // Every import ends the same way: refresh the tree (which remounts) and pick up overwritten content
+  const runImport = async (label: string, doImport: () => Promise<ImportSummary>) => {
+    try {
+      const summary = await doImport();
+      await fetchFiles();
+      await reloadCleanEditors();
+      return summary;
+    } catch (err) {
+      console.error(err);
+      setError(`Failed to import ${label}`);
+      return null;
+    }
+  };
+
+  const importProject = async (file: File, policy: ConflictPolicy) => {
+    const data = new Uint8Array(await file.arrayBuffer());
+    return runImport(file.name, () => service.importArchive(data, policy));
+  };
+
+  const importLocalFiles = async (source: LocalFileSource, parentId: string | null) => {
+    // Drops never overwrite; clashing names get a numbered suffix
+    return runImport('dropped files', () => service.importLocalFiles(source, 'rename', parentId));
+  };
+
+  const openLocalFolder = async (policy: ConflictPolicy) => {
+    if (!window.showDirectoryPicker) {
+      setError('Opening a local folder requires a browser with the File System Access API');
+      return null;
+    }
+
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await window.showDirectoryPicker({ mode: 'read' });
+    } catch {
+      // The user dismissed the picker
+      return null;
+    }
+    return runImport(handle.name, () =>
+      service.importLocalFiles({ kind: 'directory', handle }, policy, null)
+    );
   };
 
   const reset = async () => {
     await service.resetFileSystem();
   };
 
+  const downloadBackup = async () => {
+    try {
+      await service.downloadDatabaseBackup();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to export database backup');
+    }
+  };
+
   return (
     <IDEContext.Provider
       value={{
+        projects,
+        activeProjectId,
         files,
         selectedFileId,
-        fileContent,
+        fileContent: activeEditor?.content ?? '',
+        openEditors,
+        languageOverrides,
+        revisions,
+        historyRetention,
+        keybindings,
+        runners,
+        diffView,
+        getFilePath: service.getFilePath,
         isReady: isWcReady && isDbReady,
-        isRunning,
+        runtime,
+        runtimeError: wcError?.message ?? null,
+        isRunning: processes.length > 0,
+        processes,
+        packageScripts,
+        terminalTabs,
+        activeTerminalTabId,
+        isInstalling,
+        buildConfig,
+        isBuilding,
+        runConfigurations,
+        activeRunConfigurationId,
+        servers,
+        previewServer,
+        selectPreviewPort: setPreviewPort,
+        runScript,
+        installDependencies,
+        build,
+        setActiveTerminalTab,
+        closeTerminalTab,
+        registerTaskTerminal,
         isLoading,
         error,
+        canDownloadBackup,
         // @ts-expect-error terminalRef is not null
         terminalRef,
         selectFile,
+        openFileAt,
+        resolveFileLocation,
+        revealFile,
+        treeReveal,
+        renamingNodeId,
+        startRename: setRenamingNodeId,
+        finishRename: () => setRenamingNodeId(null),
+        filePaths,
+        recentFileIds,
+        searchFiles,
+        contentVersion,
+        replaceInFiles,
+        undoReplace,
+        canUndoReplace,
+        revealTarget,
         updateFileContent,
         saveFile,
+        saveAllFiles,
+        closeEditor,
+        closeOtherEditors,
+        setLanguageOverride,
+        openRevisionDiff,
+        compareWithSaved,
+        closeDiff,
+        restoreRevision,
+        setHistoryRetention,
+        setKeybinding,
+        setRunners,
         createFile,
         renameNode,
         moveNode,
         deleteNode,
         run,
-        reset
+        selectRunConfiguration,
+        saveRunConfiguration,
+        deleteRunConfiguration,
+        stop,
+        killProcess,
+        switchProject,
+        createProject,
+        renameProject,
+        duplicateProject,
+        deleteProject,
+        exportProject,
+        importProject,
+        importLocalFiles,
+        openLocalFolder,
+        reset,
+        downloadBackup
       }}
     >
       {children}
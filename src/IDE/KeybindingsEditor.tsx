@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { AlertTriangle, Pencil, RotateCcw, X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { useCommands, type Command } from './commands';
+import {
+  WHEN_CONTEXT_KEYS,
+  findKeybindingConflicts,
+  formatKeybinding,
+  keybindingFromEvent
+} from './keybindings';
+
+interface Draft {
+  commandId: string;
+  keybinding: string | null;
+  when: string;
+}
+
+export function KeybindingsEditor({ defaults, onClose }: { defaults: Command[]; onClose: () => void }) {
+  const { keybindings, setKeybinding } = useIDE();
+  const { commands } = useCommands();
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const needle = filter.trim().toLowerCase();
+  const rows = commands.filter(
+    command =>
+      needle === '' ||
+      `${command.category}: ${command.title}`.toLowerCase().includes(needle) ||
+      command.keybinding?.toLowerCase().includes(needle)
+  );
+
+  const conflicts =
+    draft?.keybinding ? findKeybindingConflicts(commands, draft.commandId, draft.keybinding, draft.when) : [];
+
+  const startEditing = (command: Command) =>
+    setDraft({ commandId: command.id, keybinding: command.keybinding ?? null, when: command.when ?? '' });
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const fallback = defaults.find(command => command.id === draft.commandId);
+    const when = draft.when.trim() || undefined;
+
+    // Matching the default again drops the override instead of storing a copy
+    const isDefault = draft.keybinding === (fallback?.keybinding ?? null) && when === fallback?.when;
+    await setKeybinding(draft.commandId, isDefault ? null : { keybinding: draft.keybinding, when });
+    setDraft(null);
+  };
+
+  const handleRecord = (e: React.KeyboardEvent) => {
+    // Tab and Escape keep their usual meaning so the dialog stays keyboard-navigable
+    if (e.key === 'Tab' && !e.ctrlKey && !e.altKey && !e.metaKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+      setDraft(null);
+      return;
+    }
+
+    const keybinding = keybindingFromEvent(e);
+    if (keybinding) {
+      setDraft(prev => (prev ? { ...prev, keybinding } : prev));
+    }
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div
+        className="quick-open keybindings-editor"
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape' && !draft) {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+      >
+        <div className="dialog-header">
+          <span>Keyboard Shortcuts</span>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+        <input
+          autoFocus
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Search commands or keybindings"
+          spellCheck={false}
+        />
+
+        <div className="quick-open-list keybindings-list">
+          {rows.map(command => {
+            const isCustom = command.id in keybindings;
+
+            if (draft?.commandId === command.id) {
+              return (
+                <div key={command.id} className="keybindings-draft">
+                  <div className="keybindings-row">
+                    <span className="keybindings-command">
+                      {command.category}: {command.title}
+                    </span>
+                    <input
+                      autoFocus
+                      readOnly
+                      className="keybindings-record"
+                      value={draft.keybinding ? formatKeybinding(draft.keybinding) : ''}
+                      placeholder="Press the desired keys"
+                      onKeyDown={handleRecord}
+                    />
+                    <input
+                      className="keybindings-when"
+                      value={draft.when}
+                      onChange={e => setDraft({ ...draft, when: e.target.value })}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') saveDraft();
+                      }}
+                      placeholder="when, e.g. !editorFocus"
+                      title={`Context keys: ${WHEN_CONTEXT_KEYS.join(', ')}. Combine with !, && and ||.`}
+                      spellCheck={false}
+                    />
+                  </div>
+
+                  {conflicts.map(conflict => (
+                    <div key={conflict.title} className="keybindings-conflict">
+                      <AlertTriangle size={12} />
+                      {conflict.source === 'monaco' ?
+                        `Monaco's ${conflict.title} handles this first while the editor has focus`
+                      : `Also bound to ${conflict.title}`}
+                    </div>
+                  ))}
+
+                  <div className="keybindings-actions">
+                    <button onClick={() => setDraft({ ...draft, keybinding: null })}>Remove Binding</button>
+                    <button onClick={() => setDraft(null)}>Cancel</button>
+                    <button onClick={saveDraft}>Save</button>
+                  </div>
+                </div>
+              );
+            }
+
+            return (
+              <div
+                key={command.id}
+                className="quick-open-item keybindings-row"
+                onDoubleClick={() => startEditing(command)}
+              >
+                <span className="keybindings-command">
+                  {command.category}: {command.title}
+                </span>
+                <span className="keybindings-key">
+                  {command.keybinding && <span className="keybinding">{formatKeybinding(command.keybinding)}</span>}
+                </span>
+                <span className="keybindings-when quick-open-path">{command.when}</span>
+                <span className="quick-open-recent">{isCustom ? 'User' : 'Default'}</span>
+                <button onClick={() => startEditing(command)} title="Change keybinding">
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={() => setKeybinding(command.id, null)}
+                  disabled={!isCustom}
+                  title="Reset to default"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { ExternalLink, RotateCw } from 'lucide-react';
+import { useIDE } from './useIDE';
+
+// Keyed by the server URL, so the address bar starts over when another port is shown
+function PreviewBrowser({ baseUrl }: { baseUrl: string }) {
+  const [address, setAddress] = useState(baseUrl);
+  const [src, setSrc] = useState(baseUrl);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const navigate = () => {
+    setSrc(address);
+    setReloadKey(key => key + 1);
+  };
+
+  return (
+    <>
+      <div className="preview-toolbar">
+        <button onClick={() => setReloadKey(key => key + 1)} title="Reload">
+          <RotateCw size={12} />
+        </button>
+        <input
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') navigate();
+          }}
+          spellCheck={false}
+        />
+        <button onClick={() => window.open(src, '_blank', 'noopener')} title="Open in new tab">
+          <ExternalLink size={12} />
+        </button>
+      </div>
+      <iframe key={reloadKey} className="preview-frame" src={src} title="Preview" />
+    </>
+  );
+}
+
+export function PreviewPanel() {
+  const { servers, previewServer, selectPreviewPort } = useIDE();
+
+  return (
+    <div className="preview-panel">
+      <div className="file-tree-title preview-title">
+        <span>Preview</span>
+        {servers.length > 0 && (
+          <select
+            value={previewServer?.port ?? ''}
+            onChange={e => selectPreviewPort(Number(e.target.value))}
+            title="Open ports"
+          >
+            {servers.map(server => (
+              <option key={server.port} value={server.port}>
+                :{server.port}
+                {server.ready ? '' : ' (starting)'}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {previewServer ?
+        <PreviewBrowser key={previewServer.url} baseUrl={previewServer.url} />
+      : <div className="process-empty">
+          {servers.length > 0 ? 'Waiting for the server to be ready' : 'No open ports'}
+        </div>
+      }
+    </div>
+  );
+}
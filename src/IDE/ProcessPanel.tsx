@@ -0,0 +1,30 @@
+import { Square } from 'lucide-react';
+import { useIDE } from './useIDE';
+
+export function ProcessPanel() {
+  const { processes, killProcess } = useIDE();
+
+  return (
+    <div className="process-panel">
+      <div className="file-tree-title">Processes</div>
+      <div className="process-list">
+        {processes.length === 0 ?
+          <div className="process-empty">No running processes</div>
+        : processes.map(proc => (
+            <div key={proc.id} className="process-item" title={proc.command}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div className="process-command">{proc.command}</div>
+                <div className="process-meta">
+                  Started {new Date(proc.startedAt).toLocaleTimeString()}
+                </div>
+              </div>
+              <button onClick={() => killProcess(proc.id)} title="Kill process">
+                <Square size={12} fill="currentColor" />
+              </button>
+            </div>
+          ))
+        }
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Copy, Edit2, FolderPlus, Trash2 } from 'lucide-react';
+import { useIDE } from './useIDE';
+
+export function ProjectSwitcher() {
+  const {
+    projects,
+    activeProjectId,
+    switchProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject
+  } = useIDE();
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const sortedProjects = [...projects].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleCreate = async () => {
+    const name = prompt('Enter project name:');
+    if (name) {
+      await createProject(name);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!activeProject) return;
+    const name = prompt('Rename project:', activeProject.name);
+    if (name && name.trim() !== '') {
+      await renameProject(activeProject.id, name);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!activeProject) return;
+    const name = prompt('Name of the copy:', `${activeProject.name} (copy)`);
+    if (name) {
+      await duplicateProject(activeProject.id, name);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeProject) return;
+    if (confirm(`Delete project "${activeProject.name}" and all its files?`)) {
+      await deleteProject(activeProject.id);
+    }
+  };
+
+  return (
+    <div className="project-switcher">
+      <select
+        value={activeProjectId ?? ''}
+        onChange={e => switchProject(e.target.value)}
+        title="Switch project"
+      >
+        {sortedProjects.map(project => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={handleCreate} title="New project">
+        <FolderPlus size={14} />
+      </button>
+      <button onClick={handleRename} disabled={!activeProject} title="Rename project">
+        <Edit2 size={14} />
+      </button>
+      <button onClick={handleDuplicate} disabled={!activeProject} title="Duplicate project">
+        <Copy size={14} />
+      </button>
+      <button onClick={handleDelete} disabled={!activeProject} title="Delete project">
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { useIDE } from './useIDE';
+import { detectLanguage } from './languages';
+import { fuzzyMatch } from './service/fuzzyMatch';
+
+const MAX_RESULTS = 50;
+// Enough to lift a recent file above a slightly better match elsewhere
+const RECENT_BONUS = 10;
+
+function Highlighted({ text, indices, offset }: { text: string; indices: Set<number>; offset: number }) {
+  return (
+    <>
+      {Array.from(text, (char, index) =>
+        indices.has(index + offset) ? <mark key={index}>{char}</mark> : char
+      )}
+    </>
+  );
+}
+
+export function QuickOpen({ onClose, onOpen }: { onClose: () => void; onOpen: (id: string) => void }) {
+  const { filePaths, recentFileIds } = useIDE();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => {
+    const recentRank = new Map(recentFileIds.map((id, rank) => [id, rank]));
+
+    return filePaths
+      .map(file => ({ ...file, match: fuzzyMatch(query, file.path) }))
+      .filter(file => file.match !== null)
+      .map(file => {
+        const rank = recentRank.get(file.id);
+        const bonus = rank === undefined ? 0 : RECENT_BONUS - rank * (RECENT_BONUS / recentFileIds.length);
+        return { ...file, score: file.match!.score + bonus, recent: rank !== undefined };
+      })
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, MAX_RESULTS);
+  }, [filePaths, recentFileIds, query]);
+
+  const open = (id: string | undefined) => {
+    if (id) onOpen(id);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      open(results[activeIndex]?.id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div className="quick-open" onMouseDown={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search files by name"
+          spellCheck={false}
+        />
+        <div className="quick-open-list">
+          {results.length === 0 ?
+            <div className="process-empty">No matching files</div>
+          : results.map((file, index) => {
+              const nameStart = file.path.lastIndexOf('/') + 1;
+              const indices = new Set(file.match!.indices);
+              const language = detectLanguage(file.path.slice(nameStart));
+              return (
+                <div
+                  key={file.id}
+                  ref={index === activeIndex ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  className={`quick-open-item ${index === activeIndex ? 'active' : ''}`}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => open(file.id)}
+                >
+                  <language.icon size={14} strokeWidth={1.5} style={{ color: language.color, flexShrink: 0 }} />
+                  <span className="quick-open-name">
+                    <Highlighted text={file.path.slice(nameStart)} indices={indices} offset={nameStart} />
+                  </span>
+                  <span className="quick-open-path">
+                    <Highlighted text={file.path.slice(0, nameStart)} indices={indices} offset={0} />
+                  </span>
+                  {file.recent && <span className="quick-open-recent">recently opened</span>}
+                </div>
+              );
+            })
+          }
+        </div>
+      </div>
+    </div>
+  );
+}
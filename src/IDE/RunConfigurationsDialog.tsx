@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { resolveRunner } from './service/runners';
+import {
+  EMPTY_RUN_CONFIGURATION,
+  formatDotenv,
+  parseDotenv,
+  type RunConfiguration
+} from './service/runConfigurations';
+
+const isEnvFile = (path: string) => /(^|\/)\.env(\.[^/]*)?$|\.env$/.test(path);
+
+export function RunConfigurationsDialog({ onClose }: { onClose: () => void }) {
+  const {
+    runConfigurations,
+    activeRunConfigurationId,
+    runners,
+    filePaths,
+    selectedFileId,
+    getFilePath,
+    saveRunConfiguration,
+    deleteRunConfiguration,
+    selectRunConfiguration
+  } = useIDE();
+
+  const projectPaths = filePaths.map(file => file.path).filter(path => !path.startsWith('node_modules/'));
+  const programs = projectPaths.filter(path => resolveRunner(path, runners)).sort();
+  const envFiles = projectPaths.filter(isEnvFile).sort();
+  const folders = Array.from(
+    new Set(
+      projectPaths.flatMap(path => {
+        const parts = path.split('/').slice(0, -1);
+        return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+      })
+    )
+  ).sort();
+
+  const createDraft = (): RunConfiguration => {
+    const activePath = selectedFileId ? getFilePath(selectedFileId) : null;
+    const program = activePath && programs.includes(activePath) ? activePath : (programs[0] ?? '');
+    return {
+      ...EMPTY_RUN_CONFIGURATION,
+      id: crypto.randomUUID(),
+      name: program ? program.slice(program.lastIndexOf('/') + 1) : 'New configuration',
+      program
+    };
+  };
+
+  const [draft, setDraft] = useState<RunConfiguration>(
+    () => runConfigurations.find(config => config.id === activeRunConfigurationId) ?? createDraft()
+  );
+  const [envText, setEnvText] = useState(() => formatDotenv(draft.env));
+  const isSaved = runConfigurations.some(config => config.id === draft.id);
+
+  const edit = (config: RunConfiguration) => {
+    setDraft(config);
+    setEnvText(formatDotenv(config.env));
+  };
+
+  const update = (changes: Partial<RunConfiguration>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const save = async () => {
+    const config = { ...draft, name: draft.name.trim(), env: parseDotenv(envText) };
+    await saveRunConfiguration(config);
+    await selectRunConfiguration(config.id);
+    onClose();
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete run configuration "${draft.name}"?`)) return;
+    await deleteRunConfiguration(draft.id);
+    edit(runConfigurations.find(config => config.id !== draft.id) ?? createDraft());
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div
+        className="quick-open run-configurations-dialog"
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+      >
+        <div className="dialog-header">
+          <span>Run Configurations</span>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="run-configurations-body">
+          <div className="run-configurations-list">
+            {runConfigurations.map(config => (
+              <div
+                key={config.id}
+                className={`quick-open-item${config.id === draft.id ? ' active' : ''}`}
+                onClick={() => edit(config)}
+              >
+                {config.name}
+              </div>
+            ))}
+            {!isSaved && <div className="quick-open-item active">{draft.name || 'New configuration'}</div>}
+            <button className="run-configurations-new" onClick={() => edit(createDraft())} disabled={!isSaved}>
+              <Plus size={14} /> New
+            </button>
+          </div>
+
+          <div className="run-configurations-form">
+            <label>
+              Name
+              <input autoFocus value={draft.name} onChange={e => update({ name: e.target.value })} />
+            </label>
+
+            <label>
+              Program
+              <select value={draft.program} onChange={e => update({ program: e.target.value })}>
+                {programs.length === 0 && <option value="">No runnable files</option>}
+                {draft.program && !programs.includes(draft.program) && (
+                  <option value={draft.program}>{draft.program} (missing)</option>
+                )}
+                {programs.map(path => (
+                  <option key={path} value={path}>
+                    {path}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Arguments
+              <input
+                value={draft.args}
+                onChange={e => update({ args: e.target.value })}
+                placeholder='--port 3000 "quoted value"'
+                spellCheck={false}
+              />
+            </label>
+
+            <label>
+              Node options
+              <input
+                value={draft.nodeOptions}
+                onChange={e => update({ nodeOptions: e.target.value })}
+                placeholder="--inspect --enable-source-maps"
+                spellCheck={false}
+              />
+            </label>
+
+            <label>
+              Working directory
+              <select value={draft.cwd} onChange={e => update({ cwd: e.target.value })}>
+                <option value="">Project root</option>
+                {draft.cwd && !folders.includes(draft.cwd) && (
+                  <option value={draft.cwd}>{draft.cwd} (missing)</option>
+                )}
+                {folders.map(path => (
+                  <option key={path} value={path}>
+                    {path}/
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Env file
+              <select value={draft.envFile ?? ''} onChange={e => update({ envFile: e.target.value || null })}>
+                <option value="">None</option>
+                {draft.envFile && !envFiles.includes(draft.envFile) && (
+                  <option value={draft.envFile}>{draft.envFile} (missing)</option>
+                )}
+                {envFiles.map(path => (
+                  <option key={path} value={path}>
+                    {path}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Environment variables (override the env file)
+              <textarea
+                value={envText}
+                onChange={e => setEnvText(e.target.value)}
+                placeholder="NODE_ENV=development"
+                rows={4}
+                spellCheck={false}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="dialog-actions">
+          {isSaved && <button onClick={remove}>Delete</button>}
+          <span className="quick-open-path" />
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={save} disabled={!draft.name.trim() || !draft.program}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { DEFAULT_RUNNERS, type RunnerMapping } from './service/runners';
+
+const normalizeExtension = (extension: string) => {
+  const trimmed = extension.trim().toLowerCase();
+  return trimmed && !trimmed.startsWith('.') ? `.${trimmed}` : trimmed;
+};
+
+export function RunnersDialog({ onClose }: { onClose: () => void }) {
+  const { runners, setRunners } = useIDE();
+  const [draft, setDraft] = useState<RunnerMapping[]>(runners);
+
+  const update = (index: number, changes: Partial<RunnerMapping>) =>
+    setDraft(prev => prev.map((runner, i) => (i === index ? { ...runner, ...changes } : runner)));
+
+  const cleaned = draft
+    .map(runner => ({ ...runner, extension: normalizeExtension(runner.extension), command: runner.command.trim() }))
+    .filter(runner => runner.extension || runner.command);
+  const isValid = cleaned.every(runner => runner.extension.length > 1 && runner.command);
+  const overridden = new Set(cleaned.map(runner => runner.extension));
+
+  const save = async () => {
+    await setRunners(cleaned.map(({ transpile, ...runner }) => (transpile ? { ...runner, transpile } : runner)));
+    onClose();
+  };
+
+  return (
+    <div className="quick-open-backdrop" onMouseDown={onClose}>
+      <div
+        className="quick-open runners-dialog"
+        onMouseDown={e => e.stopPropagation()}
+        onKeyDown={e => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+      >
+        <div className="dialog-header">
+          <span>Runners</span>
+          <button onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="runners-section">Custom ({'{file}'} is replaced by the file path)</div>
+        {draft.length === 0 && <div className="process-empty">No custom runners</div>}
+        {draft.map((runner, index) => (
+          <div key={index} className="runners-row">
+            <input
+              className="runners-extension"
+              value={runner.extension}
+              onChange={e => update(index, { extension: e.target.value })}
+              placeholder=".py"
+              spellCheck={false}
+            />
+            <input
+              className="runners-command"
+              value={runner.command}
+              onChange={e => update(index, { command: e.target.value })}
+              placeholder="python3 {file}"
+              spellCheck={false}
+            />
+            <label title="Bundle with esbuild before running">
+              <input
+                type="checkbox"
+                checked={runner.transpile ?? false}
+                onChange={e => update(index, { transpile: e.target.checked })}
+              />
+              Transpile
+            </label>
+            <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} title="Remove">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button
+          className="runners-add"
+          onClick={() => setDraft(prev => [...prev, { extension: '', command: '' }])}
+        >
+          <Plus size={14} /> Add runner
+        </button>
+
+        <div className="runners-section">Built-in</div>
+        <div className="runners-defaults">
+          {DEFAULT_RUNNERS.map(runner => (
+            <div
+              key={runner.extension}
+              className={`runners-row${overridden.has(runner.extension) ? ' overridden' : ''}`}
+              title={overridden.has(runner.extension) ? 'Overridden by a custom runner' : undefined}
+            >
+              <span className="runners-extension">{runner.extension}</span>
+              <span className="runners-command">{runner.command}</span>
+              <span className="quick-open-path">{runner.transpile ? 'transpiled' : ''}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="dialog-actions">
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={save} disabled={!isValid}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Download, Play } from 'lucide-react';
+import { useIDE } from './useIDE';
+
+export function ScriptsPanel() {
+  const { isReady, packageScripts, runScript, installDependencies, isInstalling } = useIDE();
+  const scripts = Object.entries(packageScripts);
+
+  return (
+    <div className="sidebar">
+      <div className="file-tree-title timeline-title">
+        <span>Scripts</span>
+        <button onClick={installDependencies} disabled={!isReady || isInstalling} title="Install dependencies">
+          <Download size={12} />
+        </button>
+      </div>
+
+      {isInstalling && (
+        <div className="scripts-progress" title="Installing dependencies…">
+          <div className="scripts-progress-bar" />
+        </div>
+      )}
+
+      <div className="file-tree-container">
+        {scripts.length === 0 ?
+          <div className="process-empty">No scripts in package.json</div>
+        : scripts.map(([name, command]) => (
+            <div
+              key={name}
+              className="tree-item"
+              onClick={() => isReady && runScript(name)}
+              title={`npm run ${name}\n${command}`}
+            >
+              <Play size={12} style={{ marginRight: 6, flexShrink: 0, color: '#89d185' }} />
+              <span style={{ flex: 1 }}>{name}</span>
+              <span className="scripts-command">{command}</span>
+            </div>
+          ))
+        }
+      </div>
+    </div>
+  );
+}
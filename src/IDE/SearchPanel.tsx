@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from 'react';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, Undo2, WholeWord } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { useToast } from '../toasts/useToast';
+import { getReplacement, matchKey, type MatchGroups, type SearchQuery, type SearchResult } from './service/search';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function SearchPanel({ autoFocusKey }: { autoFocusKey: number }) {
+  const { searchFiles, contentVersion, openFileAt, replaceInFiles, undoReplace, canUndoReplace } = useIDE();
+  const { showToast } = useToast();
+  const [query, setQuery] = useState<SearchQuery>({
+    text: '',
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+    include: '',
+    exclude: ''
+  });
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [showReplace, setShowReplace] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  // Unticked files, and unticked matches as `<fileId>|<matchKey>`
+  const [excludedFiles, setExcludedFiles] = useState<Set<string>>(new Set());
+  const [excludedMatches, setExcludedMatches] = useState<Set<string>>(new Set());
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (autoFocusKey > 0) inputRef.current?.select();
+  }, [autoFocusKey]);
+
+  // Re-runs when `contentVersion` changes, so results follow the stored contents
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (query.text === '') {
+        setResults([]);
+        setTruncated(false);
+        setQueryError(null);
+        return;
+      }
+      searchFiles(query)
+        .then(found => {
+          if (cancelled) return;
+          setResults(found.results);
+          setTruncated(found.truncated);
+          setQueryError(null);
+          // Keys are positions, so ticks from earlier results could land on unrelated new matches
+          setExcludedFiles(new Set());
+          setExcludedMatches(new Set());
+        })
+        .catch((err: unknown) => {
+          if (cancelled) return;
+          setResults([]);
+          setQueryError(err instanceof SyntaxError ? err.message : String(err));
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, searchFiles, contentVersion]);
+
+  const update = (changes: Partial<SearchQuery>) => setQuery(prev => ({ ...prev, ...changes }));
+
+  const toggle = (setter: typeof setCollapsed, key: string) =>
+    setter(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  const isMatchIncluded = (fileId: string, key: string) =>
+    !excludedFiles.has(fileId) && !excludedMatches.has(`${fileId}|${key}`);
+
+  // The results can still belong to the previous query while an invalid regex is being typed
+  const previewReplacement = (match: MatchGroups) => {
+    try {
+      return getReplacement(query, match, replacement);
+    } catch {
+      return replacement;
+    }
+  };
+
+  const handleReplace = async () => {
+    const selection = results
+      .map(result => ({
+        fileId: result.fileId,
+        keys: result.matches.map(matchKey).filter(key => isMatchIncluded(result.fileId, key))
+      }))
+      .filter(({ keys }) => keys.length > 0);
+    if (selection.length === 0) return;
+
+    try {
+      const { files, replacements, skippedFileIds } = await replaceInFiles(query, replacement, selection);
+      showToast(`Replaced ${replacements} occurrence(s) in ${files} file(s)`, 'success');
+      if (skippedFileIds.length > 0) {
+        const paths = results.filter(r => skippedFileIds.includes(r.fileId)).map(r => r.path);
+        showToast(`Skipped files with unsaved changes: ${paths.join(', ')}`, 'info');
+      }
+    } catch (err) {
+      console.error(err);
+      showToast('Replace failed, no files were changed', 'error');
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await undoReplace();
+      showToast('Replace undone', 'success');
+    } catch (err) {
+      console.error(err);
+      showToast('Undo failed', 'error');
+    }
+  };
+
+  const matchCount = results.reduce((count, result) => count + result.matches.length, 0);
+
+  return (
+    <div className="sidebar" data-focus-context="search">
+      <div className="file-tree-title">Search</div>
+
+      <div className="search-form">
+        <div className="search-input">
+          <button onClick={() => setShowReplace(!showReplace)} title="Toggle replace">
+            {showReplace ?
+              <ChevronDown size={14} />
+            : <ChevronRight size={14} />}
+          </button>
+          <input
+            ref={inputRef}
+            value={query.text}
+            onChange={e => update({ text: e.target.value })}
+            placeholder="Search"
+            spellCheck={false}
+          />
+          <button
+            className={query.caseSensitive ? 'active' : ''}
+            onClick={() => update({ caseSensitive: !query.caseSensitive })}
+            title="Match case"
+          >
+            <CaseSensitive size={14} />
+          </button>
+          <button
+            className={query.wholeWord ? 'active' : ''}
+            onClick={() => update({ wholeWord: !query.wholeWord })}
+            title="Match whole word"
+          >
+            <WholeWord size={14} />
+          </button>
+          <button
+            className={query.regex ? 'active' : ''}
+            onClick={() => update({ regex: !query.regex })}
+            title="Use regular expression"
+          >
+            <Regex size={14} />
+          </button>
+        </div>
+        {showReplace && (
+          <div className="search-input search-replace">
+            <input
+              value={replacement}
+              onChange={e => setReplacement(e.target.value)}
+              placeholder={query.regex ? 'Replace ($1 for groups)' : 'Replace'}
+              spellCheck={false}
+            />
+            <button onClick={handleReplace} disabled={results.length === 0} title="Replace selected matches">
+              <Replace size={14} />
+            </button>
+            <button onClick={handleUndo} disabled={!canUndoReplace} title="Undo last replace">
+              <Undo2 size={14} />
+            </button>
+          </div>
+        )}
+        <input
+          value={query.include}
+          onChange={e => update({ include: e.target.value })}
+          placeholder="files to include (e.g. src/**, *.ts)"
+          spellCheck={false}
+        />
+        <input
+          value={query.exclude}
+          onChange={e => update({ exclude: e.target.value })}
+          placeholder="files to exclude"
+          spellCheck={false}
+        />
+      </div>
+
+      <div className="file-tree-container">
+        {queryError ?
+          <div className="search-error">{queryError}</div>
+        : query.text !== '' && (
+            <div className="process-empty">
+              {matchCount === 0 ?
+                'No results'
+              : `${matchCount} result${matchCount === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}${truncated ? ' (limited)' : ''}`
+              }
+            </div>
+          )
+        }
+
+        {results.map(result => (
+          <div key={result.fileId}>
+            <div className="tree-item" onClick={() => toggle(setCollapsed, result.fileId)} title={result.path}>
+              {collapsed.has(result.fileId) ?
+                <ChevronRight size={14} style={{ marginRight: 4, flexShrink: 0 }} />
+              : <ChevronDown size={14} style={{ marginRight: 4, flexShrink: 0 }} />}
+              {showReplace && (
+                <input
+                  type="checkbox"
+                  checked={!excludedFiles.has(result.fileId)}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => toggle(setExcludedFiles, result.fileId)}
+                  title="Include this file"
+                />
+              )}
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>{result.path}</span>
+              <span className="search-count">{result.matches.length}</span>
+            </div>
+
+            {!collapsed.has(result.fileId) &&
+              result.matches.map(match => {
+                const key = matchKey(match);
+                const matched = match.preview.slice(match.previewOffset, match.previewOffset + match.length);
+                return (
+                  <div
+                    key={key}
+                    className="tree-item search-match"
+                    onClick={() => openFileAt(result.fileId, match.line, match.column)}
+                    title={`Line ${match.line}`}
+                  >
+                    {showReplace && (
+                      <input
+                        type="checkbox"
+                        checked={isMatchIncluded(result.fileId, key)}
+                        disabled={excludedFiles.has(result.fileId)}
+                        onClick={e => e.stopPropagation()}
+                        onChange={() => toggle(setExcludedMatches, `${result.fileId}|${key}`)}
+                        title="Include this match"
+                      />
+                    )}
+                    <span>{match.preview.slice(0, match.previewOffset)}</span>
+                    {showReplace && isMatchIncluded(result.fileId, key) ?
+                      <>
+                        <del>{matched}</del>
+                        <ins>{previewReplacement({ ...match, text: matched })}</ins>
+                      </>
+                    : <mark>{matched}</mark>}
+                    <span>{match.preview.slice(match.previewOffset + match.length)}</span>
+                  </div>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
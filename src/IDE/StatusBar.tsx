@@ -0,0 +1,34 @@
+import { useIDE } from './useIDE';
+import { LANGUAGES, detectLanguage, resolveLanguage } from './languages';
+import { findNode } from './service/fileUtils';
+
+export function StatusBar() {
+  const { files, selectedFileId, languageOverrides, setLanguageOverride } = useIDE();
+
+  const node = selectedFileId ? findNode(files, selectedFileId) : null;
+  if (!node || node.type !== 'file') {
+    return <footer className="status-bar" />;
+  }
+
+  const override = languageOverrides[node.id] ?? null;
+  const language = resolveLanguage(node.name, override);
+  const detected = detectLanguage(node.name);
+
+  return (
+    <footer className="status-bar">
+      <span style={{ flex: 1 }} />
+      <select
+        value={override ?? ''}
+        onChange={e => setLanguageOverride(node.id, e.target.value || null)}
+        title={`Language mode: ${language.label}`}
+      >
+        <option value="">Auto ({detected.label})</option>
+        {Object.entries(LANGUAGES).map(([key, definition]) => (
+          <option key={key} value={key}>
+            {definition.label}
+          </option>
+        ))}
+      </select>
+    </footer>
+  );
+}
@@ -1,20 +1,92 @@
 import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
-import { Terminal } from '@xterm/xterm';
+import { Terminal, type ILink } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
+import { useIDE } from './useIDE';
+import { findFileLocations } from './terminalLinks';
+import type { FileLocation } from './service/types';
+
+export interface TerminalDimensions {
+  cols: number;
+  rows: number;
+}
 
 export interface TerminalHandle {
   write: (text: string) => void;
   clear: () => void;
+  getDimensions: () => TerminalDimensions;
+  // Both return an unsubscribe function
+  onInput: (listener: (data: string) => void) => () => void;
+  onResize: (listener: (dimensions: TerminalDimensions) => void) => () => void;
+}
+
+// Text of the (possibly wrapped) line around buffer row `row`, and the row it starts on
+function readLogicalLine(terminal: Terminal, row: number) {
+  const buffer = terminal.buffer.active;
+  let start = row;
+  while (start > 0 && buffer.getLine(start)?.isWrapped) start--;
+
+  let text = '';
+  for (let y = start; y === start || buffer.getLine(y)?.isWrapped; y++) {
+    text += buffer.getLine(y)?.translateToString(false) ?? '';
+  }
+  return { start, text };
+}
+
+function findFileLinks(
+  terminal: Terminal,
+  bufferLineNumber: number,
+  resolve: (path: string, line: number, column: number) => FileLocation | null,
+  open: (location: FileLocation) => void
+): ILink[] {
+  const { start, text } = readLogicalLine(terminal, bufferLineNumber - 1);
+  // Buffer positions are 1-based and the range end is inclusive
+  const toPosition = (offset: number) => ({
+    x: (offset % terminal.cols) + 1,
+    y: start + Math.floor(offset / terminal.cols) + 1
+  });
+
+  return findFileLocations(text).flatMap(match => {
+    const location = resolve(match.path, match.line, match.column);
+    if (!location) return [];
+    return [
+      {
+        range: { start: toPosition(match.index), end: toPosition(match.index + match.length - 1) },
+        text: text.slice(match.index, match.index + match.length),
+        activate: () => open(location)
+      }
+    ];
+  });
 }
 
 export const TerminalComponent = forwardRef<TerminalHandle>((_, ref) => {
+  const { resolveFileLocation, openFileAt } = useIDE();
   const terminalRef = useRef<HTMLDivElement>(null);
   const xterm = useRef<Terminal | null>(null);
   const fitAddon = useRef<FitAddon | null>(null);
+  const inputListeners = useRef(new Set<(data: string) => void>());
+  const resizeListeners = useRef(new Set<(dimensions: TerminalDimensions) => void>());
+  // The terminal outlives renders, its link provider reads the current callbacks from here
+  const linkHandlers = useRef({ resolveFileLocation, openFileAt });
+
+  useEffect(() => {
+    linkHandlers.current = { resolveFileLocation, openFileAt };
+  });
 
   useImperativeHandle(ref, () => ({
     write: (text: string) => xterm.current?.write(text),
-    clear: () => xterm.current?.reset()
+    clear: () => xterm.current?.reset(),
+    getDimensions: () => ({
+      cols: xterm.current?.cols ?? 80,
+      rows: xterm.current?.rows ?? 24
+    }),
+    onInput: listener => {
+      inputListeners.current.add(listener);
+      return () => inputListeners.current.delete(listener);
+    },
+    onResize: listener => {
+      resizeListeners.current.add(listener);
+      return () => resizeListeners.current.delete(listener);
+    }
   }));
 
   useEffect(() => {
@@ -39,6 +111,28 @@ export const TerminalComponent = forwardRef<TerminalHandle>((_, ref) => {
 
     xterm.current.writeln('\x1b[1;32m⚡ Terminal Ready\x1b[0m');
 
+    // Keystrokes and pty size changes are forwarded to whoever is attached (e.g. the shell process)
+    const dataSubscription = xterm.current.onData(data => {
+      inputListeners.current.forEach(listener => listener(data));
+    });
+    const resizeSubscription = xterm.current.onResize(dimensions => {
+      resizeListeners.current.forEach(listener => listener(dimensions));
+    });
+
+    // File locations in the output (stack traces, build errors) open the file at that position
+    const terminal = xterm.current;
+    const linkSubscription = terminal.registerLinkProvider({
+      provideLinks: (bufferLineNumber, callback) => {
+        const links = findFileLinks(
+          terminal,
+          bufferLineNumber,
+          (...args) => linkHandlers.current.resolveFileLocation(...args),
+          location => linkHandlers.current.openFileAt(location.fileId, location.line, location.column)
+        );
+        callback(links.length > 0 ? links : undefined);
+      }
+    });
+
     const resizeObserver = new ResizeObserver(() => {
       fitAddon.current?.fit();
     });
@@ -47,6 +141,9 @@ export const TerminalComponent = forwardRef<TerminalHandle>((_, ref) => {
 
     return () => {
       resizeObserver.disconnect();
+      dataSubscription.dispose();
+      resizeSubscription.dispose();
+      linkSubscription.dispose();
       xterm.current?.dispose();
     };
   }, []);
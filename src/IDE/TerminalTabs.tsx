@@ -0,0 +1,76 @@
+import { X } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { TerminalComponent } from './TerminalComponent';
+
+// The shell plus one tab per npm task; hidden terminals stay mounted so they keep their output
+export function TerminalTabs() {
+  const {
+    terminalRef,
+    terminalTabs,
+    activeTerminalTabId,
+    setActiveTerminalTab,
+    closeTerminalTab,
+    registerTaskTerminal
+  } = useIDE();
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {terminalTabs.length > 0 && (
+        <div className="editor-tabs terminal-tabs">
+          <div
+            className={`editor-tab ${activeTerminalTabId === null ? 'active' : ''}`}
+            onClick={() => setActiveTerminalTab(null)}
+          >
+            <span>Terminal</span>
+          </div>
+          {terminalTabs.map(tab => (
+            <div
+              key={tab.id}
+              className={`editor-tab ${tab.id === activeTerminalTabId ? 'active' : ''}`}
+              onClick={() => setActiveTerminalTab(tab.id)}
+              onMouseDown={e => {
+                // Middle click closes the tab
+                if (e.button === 1) {
+                  e.preventDefault();
+                  closeTerminalTab(tab.id);
+                }
+              }}
+              title={tab.title}
+            >
+              <span
+                className={`terminal-tab-status ${
+                  tab.exitCode === null ? 'running'
+                  : tab.exitCode === 0 ? 'success'
+                  : 'failed'
+                }`}
+              />
+              <span>{tab.title}</span>
+              <span
+                className="editor-tab-close"
+                onClick={e => {
+                  e.stopPropagation();
+                  closeTerminalTab(tab.id);
+                }}
+                title={tab.exitCode === null ? 'Stop and close' : 'Close'}
+              >
+                <X size={12} />
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ flex: 1, minHeight: 0, display: activeTerminalTabId === null ? 'block' : 'none' }}>
+        <TerminalComponent ref={terminalRef} />
+      </div>
+      {terminalTabs.map(tab => (
+        <div
+          key={tab.id}
+          style={{ flex: 1, minHeight: 0, display: tab.id === activeTerminalTabId ? 'block' : 'none' }}
+        >
+          <TerminalComponent ref={handle => registerTaskTerminal(tab.id, handle)} />
+        </div>
+      ))}
+    </div>
+  );
+}
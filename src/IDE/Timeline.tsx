@@ -0,0 +1,65 @@
+import { GitCompare, History } from 'lucide-react';
+import { useIDE } from './useIDE';
+import { parseTimestamp } from './service/fileUtils';
+
+export function Timeline() {
+  const {
+    selectedFileId,
+    openEditors,
+    revisions,
+    historyRetention,
+    diffView,
+    openRevisionDiff,
+    compareWithSaved,
+    setHistoryRetention
+  } = useIDE();
+
+  const activeEditor = openEditors.find(editor => editor.id === selectedFileId);
+  const isDirty = !!activeEditor && activeEditor.content !== activeEditor.savedContent;
+  const fileRevisions = revisions.filter(revision => revision.fileId === selectedFileId);
+
+  return (
+    <div className="sidebar">
+      <div className="file-tree-title timeline-title">
+        <span>Timeline</span>
+        <button onClick={compareWithSaved} disabled={!isDirty} title="Compare unsaved buffer with last saved">
+          <GitCompare size={12} />
+        </button>
+      </div>
+
+      <div className="file-tree-container">
+        {!activeEditor ?
+          <div className="process-empty">Open a file to see its history</div>
+        : fileRevisions.length === 0 ?
+          <div className="process-empty">No saved revisions yet</div>
+        : fileRevisions.map(revision => (
+            <div
+              key={revision.id}
+              className={`tree-item ${diffView?.revisionId === revision.id ? 'selected' : ''}`}
+              onClick={() => openRevisionDiff(revision)}
+              title="Compare with current buffer"
+            >
+              <History size={12} style={{ marginRight: 6, flexShrink: 0 }} />
+              <span style={{ flex: 1 }}>{parseTimestamp(revision.created_at).toLocaleString()}</span>
+              <span style={{ color: '#858585', fontSize: 11 }}>{revision.size ?? 0} B</span>
+            </div>
+          ))
+        }
+      </div>
+
+      <label className="timeline-retention">
+        Keep last
+        <input
+          type="number"
+          min={1}
+          value={historyRetention}
+          onChange={e => {
+            const limit = Number(e.target.value);
+            if (limit > 0) setHistoryRetention(limit);
+          }}
+        />
+        saves
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+
+export interface Command {
+  id: string;
+  title: string;
+  // Groups commands in the palette, e.g. "File: Save"
+  category: string;
+  // e.g. `Ctrl+Shift+P`; `Ctrl` also matches Cmd on macOS
+  keybinding?: string;
+  // Context keys the binding is limited to, e.g. `explorerFocus && !inputFocus`; see `evaluateWhen`
+  when?: string;
+  // Menus pass their target (e.g. a node id); the palette and shortcuts pass nothing
+  run: (arg?: string) => void | Promise<void>;
+  isEnabled?: (arg?: string) => boolean;
+}
+
+export interface CommandRegistry {
+  commands: Command[];
+  execute: (id: string, arg?: string) => void;
+}
+
+export const CommandContext = createContext<CommandRegistry | null>(null);
+
+export function useCommands(): CommandRegistry {
+  const registry = useContext(CommandContext);
+  if (!registry) {
+    throw new Error('useCommands must be used within a CommandContext provider');
+  }
+  return registry;
+}
+
+// Dispatches a command from a list, reporting failures in the console like the other actions
+export function executeCommand(commands: Command[], id: string, arg?: string) {
+  const command = commands.find(c => c.id === id);
+  if (!command) {
+    console.error(`Unknown command: ${id}`);
+    return;
+  }
+  if (command.isEnabled && !command.isEnabled(arg)) return;
+
+  Promise.resolve(command.run(arg)).catch((err: unknown) => console.error(`Command ${id} failed:`, err));
+}
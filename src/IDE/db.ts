@@ -4,8 +4,33 @@ import { sqlite3Worker1Promiser } from '@sqlite.org/sqlite-wasm';
 let dbPromise: Promise<(command: string, params: any) => Promise<any>> | null = null;
 let dbId: string | null = null;
 
-async function createFileSystemSchema(promiser: (command: string, params: any) => Promise<any>) {
-  await promiser('exec', {
+type Promiser = (command: string, params: any) => Promise<any>;
+
+let rawPromiser: Promiser | null = null;
+
+// The connection is shared, so statements and transactions run one at a time in call order
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => {});
+  return result;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+/**
+ * Ordered schema changes. Each step runs once in its own transaction and bumps
+ * `PRAGMA user_version` to its version; append new steps, never edit shipped ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create files table',
     sql: `
       CREATE TABLE IF NOT EXISTS files (
         id TEXT PRIMARY KEY,
@@ -15,9 +40,147 @@ async function createFileSystemSchema(promiser: (command: string, params: any) =
         content TEXT,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
-    `,
+    `
+  },
+  {
+    version: 2,
+    description: 'Index files by parent and enforce unique names per folder',
+    sql: `
+      -- Older databases may already hold duplicates, keep the first and suffix the rest
+      UPDATE files SET name = name || ' (' || substr(id, 1, 8) || ')'
+      WHERE rowid NOT IN (
+        SELECT MIN(rowid) FROM files GROUP BY COALESCE(parentId, ''), name
+      );
+      CREATE INDEX IF NOT EXISTS idx_files_parentId ON files (parentId);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_files_parent_name ON files (COALESCE(parentId, ''), name);
+    `
+  },
+  {
+    version: 3,
+    description: 'Add projects and scope files by project',
+    sql: `
+      CREATE TABLE projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_opened_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      -- Existing files become the first project
+      INSERT INTO projects (id, name) VALUES ('default', 'My Project');
+      ALTER TABLE files ADD COLUMN projectId TEXT NOT NULL DEFAULT 'default';
+      DROP INDEX IF EXISTS idx_files_parent_name;
+      CREATE UNIQUE INDEX idx_files_project_parent_name ON files (projectId, COALESCE(parentId, ''), name);
+      CREATE INDEX idx_files_projectId ON files (projectId);
+    `
+  },
+  {
+    version: 4,
+    description: 'Add file revision history and settings',
+    sql: `
+      CREATE TABLE file_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fileId TEXT NOT NULL,
+        projectId TEXT NOT NULL,
+        content TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_file_revisions_fileId ON file_revisions (fileId, id);
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 5,
+    description: 'Add full-text index over file contents',
+    sql: `
+      -- External content table: the index reads rows from files, triggers keep it current
+      CREATE VIRTUAL TABLE files_fts USING fts5(
+        content,
+        content = 'files',
+        content_rowid = 'rowid',
+        tokenize = 'trigram'
+      );
+      CREATE TRIGGER files_fts_insert AFTER INSERT ON files BEGIN
+        INSERT INTO files_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER files_fts_delete AFTER DELETE ON files BEGIN
+        INSERT INTO files_fts (files_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+      CREATE TRIGGER files_fts_update AFTER UPDATE OF content ON files BEGIN
+        INSERT INTO files_fts (files_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO files_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+      INSERT INTO files_fts (files_fts) VALUES ('rebuild');
+    `
+  },
+  {
+    version: 6,
+    description: 'Add run configurations',
+    sql: `
+      CREATE TABLE run_configurations (
+        id TEXT PRIMARY KEY,
+        projectId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        program TEXT NOT NULL,
+        args TEXT NOT NULL DEFAULT '',
+        nodeOptions TEXT NOT NULL DEFAULT '',
+        -- JSON object of variable names to values
+        env TEXT NOT NULL DEFAULT '{}',
+        cwd TEXT NOT NULL DEFAULT '',
+        envFile TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_run_configurations_projectId ON run_configurations (projectId);
+    `
+  }
+];
+
+export const DEFAULT_HISTORY_RETENTION = 50;
+
+export class MigrationError extends Error {
+  readonly version: number;
+
+  constructor(migration: Migration, cause: unknown) {
+    super(`Migration ${migration.version} (${migration.description}) failed: ${describeError(cause)}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.cause = cause;
+  }
+}
+
+// Worker errors arrive as `{ result: { message } }` objects rather than Error instances
+function describeError(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  const message = (err as { result?: { message?: string } })?.result?.message;
+  return message ?? String(err);
+}
+
+async function getSchemaVersion(promiser: Promiser): Promise<number> {
+  const result = await promiser('exec', {
+    sql: 'PRAGMA user_version',
+    rowMode: 'array',
     dbId
   });
+  return result.result.resultRows?.[0]?.[0] ?? 0;
+}
+
+async function runMigrations(promiser: Promiser) {
+  const currentVersion = await getSchemaVersion(promiser);
+  const pending = MIGRATIONS.filter(m => m.version > currentVersion);
+
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}: ${migration.description}`);
+    try {
+      await withTransaction(async tx => {
+        await tx('exec', { sql: migration.sql, dbId });
+        await tx('exec', { sql: `PRAGMA user_version = ${migration.version}`, dbId });
+      });
+    } catch (err) {
+      throw new MigrationError(migration, err);
+    }
+  }
 }
 
 export async function initDb() {
@@ -45,12 +208,12 @@ export async function initDb() {
       }
 
       dbId = openResponse.result.dbId;
+      rawPromiser = promiser;
 
-      // create schema
-      await createFileSystemSchema(promiser);
+      await runMigrations(promiser);
 
       console.log('Database initialized successfully');
-      resolve(promiser);
+      resolve((command, params) => enqueue(() => promiser(command, params)));
     } catch (err) {
       console.error('Failed to initialize or migrate database:', err);
       reject(err);
@@ -62,6 +225,7 @@ export async function initDb() {
 
 export interface FileRecord {
   id: string;
+  projectId: string;
   name: string;
   parentId: string | null;
   type: 'file' | 'folder';
@@ -69,24 +233,190 @@ export interface FileRecord {
   updated_at: string;
 }
 
-export async function getFilesFromDb(): Promise<FileRecord[]> {
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  created_at: string;
+  last_opened_at: string;
+}
+
+/**
+ * Runs `fn` between `BEGIN` and `COMMIT`. The transaction holds the statement queue until it
+ * ends, so other callers' statements can neither start a nested transaction nor land inside
+ * this one; `fn` must issue its statements through `tx`, which bypasses the queue.
+ */
+async function withTransaction<T>(fn: (tx: Promiser) => Promise<T>): Promise<T> {
+  const tx = rawPromiser;
+  if (!tx) {
+    throw new Error('Database is not open');
+  }
+  return enqueue(async () => {
+    await tx('exec', { sql: 'BEGIN', dbId });
+    try {
+      const result = await fn(tx);
+      await tx('exec', { sql: 'COMMIT', dbId });
+      return result;
+    } catch (error) {
+      await tx('exec', { sql: 'ROLLBACK', dbId }).catch(() => {});
+      throw error;
+    }
+  });
+}
+
+export async function getProjects(): Promise<ProjectRecord[]> {
   const promiser = await initDb();
   const result = await promiser('exec', {
-    sql: 'SELECT * FROM files ORDER BY type DESC, name ASC',
+    sql: 'SELECT * FROM projects ORDER BY last_opened_at DESC, name ASC',
     rowMode: 'object',
     dbId
   });
   return result.result.resultRows || [];
 }
 
-export async function saveFileContent(id: string, content: string) {
+export async function createProject(name: string) {
+  const promiser = await initDb();
+  const id = crypto.randomUUID();
+  try {
+    await promiser('exec', {
+      sql: 'INSERT INTO projects (id, name) VALUES (?, ?)',
+      bind: [id, name],
+      dbId
+    });
+    console.log(`Created project: ${name}`);
+    return id;
+  } catch (error) {
+    console.error('Failed to create project:', error);
+    throw error;
+  }
+}
+
+export async function renameProject(id: string, newName: string) {
   const promiser = await initDb();
   try {
     await promiser('exec', {
-      sql: 'UPDATE files SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      bind: [content, id],
+      sql: 'UPDATE projects SET name = ? WHERE id = ?',
+      bind: [newName, id],
       dbId
     });
+    console.log(`Renamed project ${id} to ${newName}`);
+  } catch (error) {
+    console.error('Failed to rename project:', error);
+    throw error;
+  }
+}
+
+export async function touchProject(id: string) {
+  const promiser = await initDb();
+  await promiser('exec', {
+    sql: 'UPDATE projects SET last_opened_at = CURRENT_TIMESTAMP WHERE id = ?',
+    bind: [id],
+    dbId
+  });
+}
+
+export async function duplicateProject(id: string, name: string) {
+  await initDb();
+  const newProjectId = crypto.randomUUID();
+  try {
+    const files = await getFilesFromDb(id);
+    // Records get fresh ids, so parent links are remapped through this table
+    const idMap = new Map(files.map(file => [file.id, crypto.randomUUID()]));
+
+    await withTransaction(async tx => {
+      await tx('exec', {
+        sql: 'INSERT INTO projects (id, name) VALUES (?, ?)',
+        bind: [newProjectId, name],
+        dbId
+      });
+      for (const file of files) {
+        await tx('exec', {
+          sql: 'INSERT INTO files (id, projectId, name, parentId, type, content) VALUES (?, ?, ?, ?, ?, ?)',
+          bind: [
+            idMap.get(file.id),
+            newProjectId,
+            file.name,
+            file.parentId ? (idMap.get(file.parentId) ?? null) : null,
+            file.type,
+            file.content
+          ],
+          dbId
+        });
+      }
+      await tx('exec', {
+        sql: `
+          INSERT INTO run_configurations (id, projectId, name, program, args, nodeOptions, env, cwd, envFile)
+          SELECT lower(hex(randomblob(16))), ?, name, program, args, nodeOptions, env, cwd, envFile
+          FROM run_configurations WHERE projectId = ?
+        `,
+        bind: [newProjectId, id],
+        dbId
+      });
+    });
+    console.log(`Duplicated project ${id} as ${name}`);
+    return newProjectId;
+  } catch (error) {
+    console.error('Failed to duplicate project:', error);
+    throw error;
+  }
+}
+
+export async function deleteProject(id: string) {
+  await initDb();
+  try {
+    await withTransaction(async tx => {
+      await tx('exec', { sql: 'DELETE FROM file_revisions WHERE projectId = ?', bind: [id], dbId });
+      await tx('exec', { sql: 'DELETE FROM run_configurations WHERE projectId = ?', bind: [id], dbId });
+      await tx('exec', { sql: 'DELETE FROM files WHERE projectId = ?', bind: [id], dbId });
+      await tx('exec', { sql: 'DELETE FROM projects WHERE id = ?', bind: [id], dbId });
+    });
+    console.log(`Deleted project ${id}`);
+  } catch (error) {
+    console.error('Failed to delete project:', error);
+    throw error;
+  }
+}
+
+export async function getFilesFromDb(projectId: string): Promise<FileRecord[]> {
+  const promiser = await initDb();
+  const result = await promiser('exec', {
+    sql: 'SELECT * FROM files WHERE projectId = ? ORDER BY type DESC, name ASC',
+    bind: [projectId],
+    rowMode: 'object',
+    dbId
+  });
+  return result.result.resultRows || [];
+}
+
+// Updates one file and records the revision; callers provide the transaction
+async function writeFileContent(promiser: Promiser, projectId: string, id: string, content: string) {
+  await promiser('exec', {
+    sql: 'UPDATE files SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND projectId = ?',
+    bind: [content, id, projectId],
+    dbId
+  });
+  // Every save is also a revision; only the newest `history.retention` ones are kept
+  await promiser('exec', {
+    sql: 'INSERT INTO file_revisions (fileId, projectId, content) VALUES (?, ?, ?)',
+    bind: [id, projectId, content],
+    dbId
+  });
+  await promiser('exec', {
+    sql: `
+      DELETE FROM file_revisions
+      WHERE fileId = ? AND id NOT IN (
+        SELECT id FROM file_revisions WHERE fileId = ? ORDER BY id DESC
+        LIMIT (SELECT COALESCE((SELECT CAST(value AS INTEGER) FROM settings WHERE key = 'history.retention'), ?))
+      )
+    `,
+    bind: [id, id, DEFAULT_HISTORY_RETENTION],
+    dbId
+  });
+}
+
+export async function saveFileContent(projectId: string, id: string, content: string) {
+  await initDb();
+  try {
+    await withTransaction(tx => writeFileContent(tx, projectId, id, content));
     console.log('File content updated successfully');
   } catch (error) {
     console.error('Failed to update file content:', error);
@@ -94,7 +424,24 @@ export async function saveFileContent(id: string, content: string) {
   }
 }
 
+// All-or-nothing save of several files, e.g. a project-wide replace or its undo
+export async function saveFileContents(projectId: string, changes: { id: string; content: string }[]) {
+  await initDb();
+  try {
+    await withTransaction(async tx => {
+      for (const { id, content } of changes) {
+        await writeFileContent(tx, projectId, id, content);
+      }
+    });
+    console.log(`Updated ${changes.length} files`);
+  } catch (error) {
+    console.error('Failed to update files:', error);
+    throw error;
+  }
+}
+
 export async function createFile(
+  projectId: string,
   name: string,
   parentId: string | null,
   type: 'file' | 'folder',
@@ -104,8 +451,8 @@ export async function createFile(
   const id = crypto.randomUUID();
   try {
     await promiser('exec', {
-      sql: 'INSERT INTO files (id, name, parentId, type, content) VALUES (?, ?, ?, ?, ?)',
-      bind: [id, name, parentId, type, content],
+      sql: 'INSERT INTO files (id, projectId, name, parentId, type, content) VALUES (?, ?, ?, ?, ?, ?)',
+      bind: [id, projectId, name, parentId, type, content],
       dbId
     });
     console.log(`Created ${type}: ${name}`);
@@ -116,12 +463,12 @@ export async function createFile(
   }
 }
 
-export async function renameFile(id: string, newName: string) {
+export async function renameFile(projectId: string, id: string, newName: string) {
   const promiser = await initDb();
   try {
     await promiser('exec', {
-      sql: 'UPDATE files SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      bind: [newName, id],
+      sql: 'UPDATE files SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND projectId = ?',
+      bind: [newName, id, projectId],
       dbId
     });
     console.log(`Renamed file ${id} to ${newName}`);
@@ -131,12 +478,12 @@ export async function renameFile(id: string, newName: string) {
   }
 }
 
-export async function moveFile(id: string, newParentId: string | null) {
+export async function moveFile(projectId: string, id: string, newParentId: string | null) {
   const promiser = await initDb();
   try {
     await promiser('exec', {
-      sql: 'UPDATE files SET parentId = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      bind: [newParentId, id],
+      sql: 'UPDATE files SET parentId = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND projectId = ?',
+      bind: [newParentId, id, projectId],
       dbId
     });
     console.log(`Moved file ${id} to parent ${newParentId}`);
@@ -146,45 +493,234 @@ export async function moveFile(id: string, newParentId: string | null) {
   }
 }
 
-export async function deleteFile(id: string) {
+export async function deleteFile(projectId: string, id: string) {
+  await initDb();
+  try {
+    await withTransaction(async tx => {
+      // Recursive delete using CTE
+      await tx('exec', {
+        sql: `
+          WITH RECURSIVE
+            descendants(id) AS (
+              SELECT id FROM files WHERE id = ? AND projectId = ?
+              UNION ALL
+              SELECT f.id FROM files f
+              JOIN descendants d ON f.parentId = d.id
+            )
+          DELETE FROM files WHERE id IN descendants;
+        `,
+        bind: [id, projectId],
+        dbId
+      });
+      await tx('exec', {
+        sql: 'DELETE FROM file_revisions WHERE projectId = ? AND fileId NOT IN (SELECT id FROM files)',
+        bind: [projectId],
+        dbId
+      });
+    });
+  } catch (error) {
+    console.error('Failed to delete file:', error);
+    throw error;
+  }
+}
+
+export async function getFileContent(projectId: string, id: string): Promise<string> {
+  const promiser = await initDb();
+  const result = await promiser('exec', {
+    sql: 'SELECT content FROM files WHERE id = ? AND projectId = ?',
+    bind: [id, projectId],
+    rowMode: 'object',
+    dbId
+  });
+  const rows = result.result.resultRows;
+  return rows && rows.length > 0 ? rows[0].content : '';
+}
+
+/**
+ * Files whose content may match `phrase`, a literal of at least 3 characters (the trigram
+ * tokenizer can't index shorter ones). Without a phrase every file of the project is returned.
+ * Callers do the exact, line-level matching.
+ */
+export async function searchFileContents(
+  projectId: string,
+  phrase: string | null
+): Promise<Pick<FileRecord, 'id' | 'content'>[]> {
+  const promiser = await initDb();
+  const result =
+    phrase === null ?
+      await promiser('exec', {
+        sql: "SELECT id, content FROM files WHERE projectId = ? AND type = 'file'",
+        bind: [projectId],
+        rowMode: 'object',
+        dbId
+      })
+    : await promiser('exec', {
+        sql: `
+          SELECT f.id, f.content FROM files_fts
+          JOIN files f ON f.rowid = files_fts.rowid
+          WHERE files_fts MATCH ? AND f.projectId = ? AND f.type = 'file'
+        `,
+        // A quoted FTS5 string is matched literally; embedded quotes are doubled
+        bind: [`"${phrase.replace(/"/g, '""')}"`, projectId],
+        rowMode: 'object',
+        dbId
+      });
+  return result.result.resultRows || [];
+}
+
+export async function resetFileSystem(projectId: string) {
+  await initDb();
+  await withTransaction(async tx => {
+    await tx('exec', { sql: 'DELETE FROM file_revisions WHERE projectId = ?', bind: [projectId], dbId });
+    await tx('exec', { sql: 'DELETE FROM files WHERE projectId = ?', bind: [projectId], dbId });
+  });
+}
+
+export interface FileRevision {
+  id: number;
+  fileId: string;
+  size: number;
+  created_at: string;
+}
+
+export async function getFileRevisions(projectId: string, fileId: string): Promise<FileRevision[]> {
+  const promiser = await initDb();
+  const result = await promiser('exec', {
+    sql: `
+      SELECT id, fileId, LENGTH(content) AS size, created_at FROM file_revisions
+      WHERE projectId = ? AND fileId = ? ORDER BY id DESC
+    `,
+    bind: [projectId, fileId],
+    rowMode: 'object',
+    dbId
+  });
+  return result.result.resultRows || [];
+}
+
+export async function getRevisionContent(projectId: string, revisionId: number): Promise<string> {
+  const promiser = await initDb();
+  const result = await promiser('exec', {
+    sql: 'SELECT content FROM file_revisions WHERE id = ? AND projectId = ?',
+    bind: [revisionId, projectId],
+    rowMode: 'object',
+    dbId
+  });
+  const rows = result.result.resultRows;
+  return rows && rows.length > 0 ? (rows[0].content ?? '') : '';
+}
+
+export interface RunConfigurationRecord {
+  id: string;
+  name: string;
+  program: string;
+  args: string;
+  nodeOptions: string;
+  env: Record<string, string>;
+  cwd: string;
+  envFile: string | null;
+}
+
+// `env` is stored as JSON; a row that doesn't hold a string map gets no variables
+function parseEnv(value: string, configId: string): Record<string, string> {
+  try {
+    const env: unknown = JSON.parse(value);
+    if (env && typeof env === 'object' && !Array.isArray(env)) {
+      return Object.fromEntries(Object.entries(env).filter(([, v]) => typeof v === 'string'));
+    }
+  } catch (err) {
+    console.error(`Ignoring unreadable env of run configuration ${configId}:`, err);
+  }
+  return {};
+}
+
+export async function getRunConfigurations(projectId: string): Promise<RunConfigurationRecord[]> {
+  const promiser = await initDb();
+  const result = await promiser('exec', {
+    sql: `
+      SELECT id, name, program, args, nodeOptions, env, cwd, envFile FROM run_configurations
+      WHERE projectId = ? ORDER BY name ASC
+    `,
+    bind: [projectId],
+    rowMode: 'object',
+    dbId
+  });
+  return (result.result.resultRows || []).map((row: any) => ({ ...row, env: parseEnv(row.env, row.id) }));
+}
+
+export async function saveRunConfiguration(projectId: string, config: RunConfigurationRecord) {
   const promiser = await initDb();
   try {
-    // Recursive delete using CTE
     await promiser('exec', {
       sql: `
-        WITH RECURSIVE
-          descendants(id) AS (
-            SELECT id FROM files WHERE id = ?
-            UNION ALL
-            SELECT f.id FROM files f
-            JOIN descendants d ON f.parentId = d.id
-          )
-        DELETE FROM files WHERE id IN descendants;
+        INSERT INTO run_configurations (id, projectId, name, program, args, nodeOptions, env, cwd, envFile)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name, program = excluded.program, args = excluded.args,
+          nodeOptions = excluded.nodeOptions, env = excluded.env, cwd = excluded.cwd, envFile = excluded.envFile
+        WHERE projectId = excluded.projectId
       `,
-      bind: [id],
+      bind: [
+        config.id,
+        projectId,
+        config.name,
+        config.program,
+        config.args,
+        config.nodeOptions,
+        JSON.stringify(config.env),
+        config.cwd,
+        config.envFile
+      ],
       dbId
     });
-    console.log(`Deleted file/folder ${id} and its descendants`);
   } catch (error) {
-    console.error('Failed to delete file:', error);
+    console.error('Failed to save run configuration:', error);
     throw error;
   }
 }
 
-export async function getFileContent(id: string): Promise<string> {
+export async function deleteRunConfiguration(projectId: string, id: string) {
+  const promiser = await initDb();
+  await promiser('exec', {
+    sql: 'DELETE FROM run_configurations WHERE id = ? AND projectId = ?',
+    bind: [id, projectId],
+    dbId
+  });
+}
+
+export async function getSetting(key: string): Promise<string | null> {
   const promiser = await initDb();
   const result = await promiser('exec', {
-    sql: 'SELECT content FROM files WHERE id = ?',
-    bind: [id],
+    sql: 'SELECT value FROM settings WHERE key = ?',
+    bind: [key],
     rowMode: 'object',
     dbId
   });
   const rows = result.result.resultRows;
-  return rows && rows.length > 0 ? rows[0].content : '';
+  return rows && rows.length > 0 ? rows[0].value : null;
 }
 
-export async function resetFileSystem() {
+export async function setSetting(key: string, value: string) {
   const promiser = await initDb();
-  await promiser('exec', { sql: 'DELETE FROM files', dbId });
-  console.log('File system reset successfully');
+  try {
+    await promiser('exec', {
+      sql: 'INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      bind: [key, value],
+      dbId
+    });
+  } catch (error) {
+    console.error(`Failed to save setting ${key}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Serializes the whole database. Works even when `initDb` failed on a migration,
+ * so the user can keep a copy before anything else touches it.
+ */
+export async function exportDatabase(): Promise<Uint8Array> {
+  if (!rawPromiser) {
+    throw new Error('Database is not open');
+  }
+  const result = await rawPromiser('export', { dbId });
+  return result.result.byteArray;
 }
@@ -0,0 +1,301 @@
+import type { useIDE } from './useIDE';
+import type { Command } from './commands';
+import type { ConflictPolicy } from './service/zipArchive';
+import { BUILD_OUTDIR, type BuildConfig } from './service/bundler';
+import { describeImportSummary, findNode } from './service/fileUtils';
+
+type ToastType = 'success' | 'error' | 'info';
+
+// Layout state owned by `IDE` that commands can change
+export interface IDECommandUI {
+  showToast: (message: string, type?: ToastType) => void;
+  showExplorer: () => void;
+  focusExplorer: () => void;
+  showSearch: () => void;
+  showQuickOpen: () => void;
+  showCommandPalette: () => void;
+  showKeybindings: () => void;
+  showBuildConfig: () => void;
+  showRunners: () => void;
+  showRunConfigurations: () => void;
+  toggleTerminal: () => void;
+  openImportDialog: () => void;
+}
+
+function askConflictPolicy(ui: IDECommandUI): ConflictPolicy | null {
+  const answer = prompt('When a name already exists: skip, overwrite or rename?', 'rename');
+  if (!answer) return null;
+  const policy = answer.trim().toLowerCase() as ConflictPolicy;
+  if (!['skip', 'overwrite', 'rename'].includes(policy)) {
+    ui.showToast(`Unknown conflict policy "${answer}"`, 'error');
+    return null;
+  }
+  return policy;
+}
+
+/**
+ * Every user-facing IDE action. Header buttons, menus, the command palette and keyboard
+ * shortcuts all dispatch through these, so they can't drift apart.
+ */
+export function createIDECommands(ide: ReturnType<typeof useIDE>, ui: IDECommandUI): Command[] {
+  const create = async (type: 'file' | 'folder', parentId?: string) => {
+    const name = prompt(`Enter ${type} name:`);
+    if (name) {
+      await ide.createFile(name, type, parentId);
+    }
+  };
+
+  // Menus pass their own target, everything else acts on the active file
+  const hasTarget = (id?: string) => (id ?? ide.selectedFileId) !== null;
+
+  return [
+    // File
+    {
+      id: 'file.save',
+      title: 'Save',
+      category: 'File',
+      keybinding: 'Ctrl+S',
+      isEnabled: hasTarget,
+      run: async () => {
+        if (await ide.saveFile()) ui.showToast('File saved', 'success');
+      }
+    },
+    {
+      id: 'file.saveAll',
+      title: 'Save All',
+      category: 'File',
+      keybinding: 'Ctrl+Alt+S',
+      run: async () => {
+        const saved = await ide.saveAllFiles();
+        if (saved > 0) ui.showToast(`Saved ${saved} file(s)`, 'success');
+      }
+    },
+    {
+      id: 'file.newFile',
+      title: 'New File…',
+      category: 'File',
+      keybinding: 'Alt+N',
+      run: parentId => create('file', parentId)
+    },
+    {
+      id: 'file.newFolder',
+      title: 'New Folder…',
+      category: 'File',
+      keybinding: 'Alt+Shift+N',
+      run: parentId => create('folder', parentId)
+    },
+    {
+      id: 'file.rename',
+      title: 'Rename…',
+      category: 'File',
+      // Outside the tree F2 stays Monaco's Rename Symbol
+      keybinding: 'F2',
+      when: 'explorerFocus && !inputFocus',
+      isEnabled: hasTarget,
+      run: async (id = ide.selectedFileId ?? undefined) => {
+        if (!id) return;
+        ui.showExplorer();
+        // Folders only come from the tree's own menu, so they are visible already
+        if (findNode(ide.files, id)?.type === 'file') {
+          await ide.revealFile(id);
+        }
+        ide.startRename(id);
+      }
+    },
+    {
+      id: 'file.delete',
+      title: 'Delete',
+      category: 'File',
+      keybinding: 'Delete',
+      when: 'explorerFocus && !inputFocus',
+      isEnabled: hasTarget,
+      run: async (id = ide.selectedFileId ?? undefined) => {
+        if (!id) return;
+        const name = findNode(ide.files, id)?.name ?? 'this item';
+        if (confirm(`Delete ${name}?`)) {
+          await ide.deleteNode(id);
+        }
+      }
+    },
+    {
+      id: 'file.closeEditor',
+      title: 'Close Editor',
+      category: 'File',
+      // Browsers reserve Ctrl+W
+      keybinding: 'Alt+W',
+      isEnabled: hasTarget,
+      run: (id = ide.selectedFileId ?? undefined) => {
+        if (id) ide.closeEditor(id);
+      }
+    },
+    {
+      id: 'file.closeOtherEditors',
+      title: 'Close Other Editors',
+      category: 'File',
+      isEnabled: hasTarget,
+      run: (id = ide.selectedFileId ?? undefined) => {
+        if (id) ide.closeOtherEditors(id);
+      }
+    },
+
+    // Run
+    {
+      id: 'run.start',
+      title: 'Run Active Configuration',
+      category: 'Run',
+      keybinding: 'F5',
+      isEnabled: () => ide.activeRunConfigurationId !== null || ide.selectedFileId !== null,
+      run: () => ide.run()
+    },
+    {
+      id: 'run.stop',
+      title: 'Stop All Processes',
+      category: 'Run',
+      keybinding: 'Shift+F5',
+      isEnabled: () => ide.isRunning,
+      run: () => ide.stop()
+    },
+    {
+      id: 'run.editConfigurations',
+      title: 'Edit Run Configurations…',
+      category: 'Run',
+      run: ui.showRunConfigurations
+    },
+    {
+      id: 'run.configureRunners',
+      title: 'Configure Runners…',
+      category: 'Run',
+      run: ui.showRunners
+    },
+    {
+      id: 'build.run',
+      title: 'Build',
+      category: 'Build',
+      keybinding: 'Ctrl+Shift+B',
+      isEnabled: () => !ide.isBuilding,
+      run: async () => {
+        if (ide.buildConfig) {
+          await buildProject(ide, ui, ide.buildConfig);
+        } else {
+          ui.showBuildConfig();
+        }
+      }
+    },
+    {
+      id: 'build.configure',
+      title: 'Configure Build…',
+      category: 'Build',
+      run: ui.showBuildConfig
+    },
+    {
+      id: 'npm.install',
+      title: 'Install Dependencies',
+      category: 'npm',
+      isEnabled: () => ide.isReady && !ide.isInstalling,
+      run: () => ide.installDependencies()
+    },
+
+    // Project
+    {
+      id: 'project.export',
+      title: 'Export as .zip',
+      category: 'Project',
+      run: () => ide.exportProject()
+    },
+    {
+      id: 'project.import',
+      title: 'Import .zip…',
+      category: 'Project',
+      run: () => ui.openImportDialog()
+    },
+    {
+      id: 'project.openFolder',
+      title: 'Open Local Folder…',
+      category: 'Project',
+      run: async () => {
+        const policy = askConflictPolicy(ui);
+        if (!policy) return;
+
+        const summary = await ide.openLocalFolder(policy);
+        if (summary) {
+          ui.showToast(`Imported folder: ${describeImportSummary(summary)}`, 'success');
+        }
+      }
+    },
+    {
+      id: 'project.reset',
+      title: 'Delete All Files',
+      category: 'Project',
+      run: () => ide.reset()
+    },
+
+    // View
+    {
+      id: 'view.quickOpen',
+      title: 'Go to File…',
+      category: 'View',
+      keybinding: 'Ctrl+P',
+      run: ui.showQuickOpen
+    },
+    {
+      id: 'view.commandPalette',
+      title: 'Show All Commands',
+      category: 'View',
+      keybinding: 'Ctrl+Shift+P',
+      run: ui.showCommandPalette
+    },
+    {
+      id: 'view.explorer',
+      title: 'Focus Explorer',
+      category: 'View',
+      keybinding: 'Ctrl+Shift+E',
+      run: ui.focusExplorer
+    },
+    {
+      id: 'view.search',
+      title: 'Search in Files',
+      category: 'View',
+      keybinding: 'Ctrl+Shift+F',
+      run: ui.showSearch
+    },
+    {
+      id: 'view.toggleTerminal',
+      title: 'Toggle Terminal',
+      category: 'View',
+      keybinding: 'Ctrl+`',
+      run: ui.toggleTerminal
+    },
+
+    // Preferences
+    {
+      id: 'preferences.keybindings',
+      title: 'Keyboard Shortcuts',
+      category: 'Preferences',
+      run: ui.showKeybindings
+    }
+  ];
+}
+
+// Imports the archive picked in the hidden file input behind `project.import`
+export async function importArchiveFile(ide: ReturnType<typeof useIDE>, ui: IDECommandUI, file: File) {
+  const policy = askConflictPolicy(ui);
+  if (!policy) return;
+
+  const summary = await ide.importProject(file, policy);
+  if (summary) {
+    ui.showToast(`Imported ${file.name}: ${describeImportSummary(summary)}`, 'success');
+  }
+}
+
+// Runs a build and reports the outcome; messages with locations are in the terminal
+export async function buildProject(ide: ReturnType<typeof useIDE>, ui: IDECommandUI, config: BuildConfig) {
+  const summary = await ide.build(config);
+  if (!summary) return;
+
+  if (summary.errors > 0) {
+    ui.showToast(`Build failed with ${summary.errors} error(s), see the terminal`, 'error');
+  } else {
+    const warnings = summary.warnings > 0 ? ` with ${summary.warnings} warning(s)` : '';
+    ui.showToast(`Built ${summary.outputs.length} file(s) into ${BUILD_OUTDIR}/${warnings}`, 'success');
+  }
+}
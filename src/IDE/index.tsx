@@ -1,118 +1,418 @@
 import '@xterm/xterm/css/xterm.css';
-import { Panel, Group, Separator } from 'react-resizable-panels';
-import { Play, Save } from 'lucide-react';
-import { Editor } from '@monaco-editor/react';
-import { TerminalComponent } from './TerminalComponent';
+import { Panel, Group, Separator, usePanelCallbackRef } from 'react-resizable-panels';
+import { Command, Download, Files, FolderOpen, Keyboard, Package, Play, Save, Search, Settings2, Square, Upload, X } from 'lucide-react';
+import { DiffEditor, Editor, type OnMount } from '@monaco-editor/react';
 import { FileTree } from './FileTree';
-import { useCallback, useEffect } from 'react';
+import { EditorTabs } from './EditorTabs';
+import { StatusBar } from './StatusBar';
+import { ProjectSwitcher } from './ProjectSwitcher';
+import { Timeline } from './Timeline';
+import { resolveLanguage } from './languages';
+import { findNode } from './service/fileUtils';
+import { toModelUri } from './useMonacoProject';
+import { ProcessPanel } from './ProcessPanel';
+import { PreviewPanel } from './PreviewPanel';
+import { TerminalTabs } from './TerminalTabs';
+import { ScriptsPanel } from './ScriptsPanel';
+import { SearchPanel } from './SearchPanel';
+import { QuickOpen } from './QuickOpen';
+import { CommandPalette } from './CommandPalette';
+import { CommandContext, executeCommand } from './commands';
+import { applyKeybindingOverrides, evaluateWhen, getKeybindingContext, matchesKeybinding } from './keybindings';
+import { KeybindingsEditor } from './KeybindingsEditor';
+import { buildProject, createIDECommands, importArchiveFile, type IDECommandUI } from './ideCommands';
+import { BuildDialog } from './BuildDialog';
+import { RunnersDialog } from './RunnersDialog';
+import { RunConfigurationsDialog } from './RunConfigurationsDialog';
+import { useEffect, useRef, useState } from 'react';
 
 import { useToast } from '../toasts/useToast';
 import { useIDE } from './useIDE';
 
+// Dropdown entry that opens the editor instead of selecting a configuration
+const EDIT_CONFIGURATIONS = '__edit__';
+
 export function IDE() {
+  const ide = useIDE();
   const {
     files,
     selectedFileId,
     selectFile,
+    revealFile,
+    revealTarget,
+    openEditors,
+    languageOverrides,
+    getFilePath,
     fileContent,
     updateFileContent,
-    saveFile,
-    createFile,
-    run,
-    reset,
-    terminalRef,
     isRunning,
-    isReady
-  } = useIDE();
+    isReady,
+    runtime,
+    runtimeError,
+    error,
+    diffView,
+    closeDiff,
+    restoreRevision,
+    canDownloadBackup,
+    downloadBackup,
+    keybindings,
+    isBuilding,
+    runConfigurations,
+    activeRunConfigurationId,
+    selectRunConfiguration
+  } = ide;
 
   const { showToast } = useToast();
+  const [sidebarView, setSidebarView] = useState<'explorer' | 'search'>('explorer');
+  // Bumped to focus the search input, e.g. on Ctrl+Shift+F
+  const [searchFocusKey, setSearchFocusKey] = useState(0);
+  const [explorerFocusKey, setExplorerFocusKey] = useState(0);
+  const [isQuickOpenVisible, setQuickOpenVisible] = useState(false);
+  const [isCommandPaletteVisible, setCommandPaletteVisible] = useState(false);
+  const [isKeybindingsVisible, setKeybindingsVisible] = useState(false);
+  const [isBuildDialogVisible, setBuildDialogVisible] = useState(false);
+  const [isRunnersDialogVisible, setRunnersDialogVisible] = useState(false);
+  const [isRunConfigurationsVisible, setRunConfigurationsVisible] = useState(false);
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+  const revealedRef = useRef<typeof revealTarget>(null);
+  // Held in state rather than refs because the commands built during render capture them
+  const [terminalPanel, setTerminalPanel] = usePanelCallbackRef();
+  const [importInput, setImportInput] = useState<HTMLInputElement | null>(null);
+  const activeEditor = openEditors.find(editor => editor.id === selectedFileId);
+  const activeLanguage =
+    activeEditor ?
+      resolveLanguage(findNode(files, activeEditor.id)?.name ?? '', languageOverrides[activeEditor.id])
+    : null;
 
-  const handleSave = useCallback(async () => {
-    await saveFile();
-    showToast('File saved', 'success');
-  }, [saveFile, showToast]);
+  const runtimeLabel =
+    runtime === 'webcontainer' ? `WebContainer${isReady ? '' : ' (Loading...)'}`
+    : runtime === 'worker' ? 'Browser Worker (fallback)'
+    : 'Starting runtime...';
+  const runtimeTitle =
+    runtime === 'worker' ?
+      `WebContainer unavailable: ${runtimeError}. ` +
+      'Files run in a sandboxed Web Worker without npm packages, servers or a shell.'
+    : 'Node.js runs in a WebContainer';
 
-  const handleCreate = async (type: 'file' | 'folder') => {
-    const name = prompt(`Enter ${type} name:`);
-    if (name) {
-      await createFile(name, type);
-    }
+  const ui: IDECommandUI = {
+    showToast,
+    showExplorer: () => setSidebarView('explorer'),
+    focusExplorer: () => {
+      setSidebarView('explorer');
+      setExplorerFocusKey(key => key + 1);
+    },
+    showSearch: () => {
+      setSidebarView('search');
+      setSearchFocusKey(key => key + 1);
+    },
+    showQuickOpen: () => setQuickOpenVisible(true),
+    showCommandPalette: () => setCommandPaletteVisible(true),
+    showKeybindings: () => setKeybindingsVisible(true),
+    showBuildConfig: () => setBuildDialogVisible(true),
+    showRunners: () => setRunnersDialogVisible(true),
+    showRunConfigurations: () => setRunConfigurationsVisible(true),
+    toggleTerminal: () => {
+      if (terminalPanel?.isCollapsed()) terminalPanel.expand();
+      else terminalPanel?.collapse();
+    },
+    openImportDialog: () => importInput?.click()
   };
 
+  const defaultCommands = createIDECommands(ide, ui);
+  const commands = applyKeybindingOverrides(defaultCommands, keybindings);
+  const execute = (id: string, arg?: string) => executeCommand(commands, id, arg);
+
+  // The listener is registered once, so it reads the commands of the latest render
+  const commandsRef = useRef(commands);
+  useEffect(() => {
+    commandsRef.current = commands;
+  });
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 's') {
-        e.preventDefault();
-        handleSave();
-      }
+      if (e.defaultPrevented) return;
+      const context = getKeybindingContext(e.target);
+      const command = commandsRef.current.find(
+        c => c.keybinding && matchesKeybinding(e, c.keybinding) && evaluateWhen(c.when, context)
+      );
+      if (!command) return;
+
+      e.preventDefault();
+      executeCommand(commandsRef.current, command.id);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleSave]);
+  }, []);
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importArchiveFile(ide, ui, file);
+  };
+
+  // Jumps to a search result (or other target) once its tab is the one the editor shows
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealTarget || revealedRef.current === revealTarget) return;
+    if (activeEditor?.id !== revealTarget.fileId) return;
+
+    revealedRef.current = revealTarget;
+    const position = { lineNumber: revealTarget.line, column: revealTarget.column };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+  }, [revealTarget, activeEditor?.id]);
 
   return (
-    <div className="ide-container">
-      <header className="header">
-        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-          <span>⚡ Web IDE {isReady ? '(Ready)' : '(Loading...)'}</span>
-          <button onClick={run} disabled={isRunning || !selectedFileId}>
-            <Play size={14} /> Run
-          </button>
-          <button onClick={handleSave} disabled={!selectedFileId}>
-            <Save size={14} /> Save
-          </button>
-          <button onClick={() => handleCreate('file')}>+ File</button>
-          <button onClick={() => handleCreate('folder')}>+ Folder</button>
-          <button onClick={reset} style={{ marginLeft: '10px', color: 'red' }}>
-            Reset
-          </button>
-        </div>
-      </header>
-
-      <Group orientation="horizontal">
-        <Panel defaultSize={200}>
-          <FileTree
-            nodes={files}
-            onFileSelect={selectFile}
-            selectedFileId={selectedFileId}
-          />
-        </Panel>
-
-        <Separator className="resize-handle vertical" />
-
-        <Panel>
-          <Group orientation="vertical">
-            <Panel defaultSize={70} minSize={30}>
-              {selectedFileId ?
-                <Editor
-                  height="100%"
-                  language="javascript"
-                  theme="vs-dark"
-                  value={fileContent}
-                  onChange={(value) => updateFileContent(value || '')}
-                />
-              : <div
-                  style={{
-                    height: '100%',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    color: '#666'
-                  }}
+    <CommandContext.Provider value={{ commands, execute }}>
+      <div className="ide-container">
+        <header className="header">
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <span>⚡ Web IDE</span>
+            <span className={`runtime-badge ${runtime ?? ''}`} title={runtimeTitle}>
+              {runtimeLabel}
+            </span>
+            <select
+              className="run-config-select"
+              value={activeRunConfigurationId ?? ''}
+              onChange={e => {
+                if (e.target.value === EDIT_CONFIGURATIONS) execute('run.editConfigurations');
+                else selectRunConfiguration(e.target.value || null);
+              }}
+              title="Run configuration"
+            >
+              <option value="">Run current file</option>
+              {runConfigurations.map(config => (
+                <option key={config.id} value={config.id}>
+                  {config.name}
+                </option>
+              ))}
+              <option value={EDIT_CONFIGURATIONS}>Edit configurations…</option>
+            </select>
+            <button
+              onClick={() => execute('run.start')}
+              disabled={!activeRunConfigurationId && !selectedFileId}
+              title="Run (F5)"
+            >
+              <Play size={14} /> Run
+            </button>
+            <button onClick={() => execute('run.stop')} disabled={!isRunning}>
+              <Square size={14} /> Stop
+            </button>
+            <button onClick={() => execute('build.run')} disabled={isBuilding} title="Build (Ctrl+Shift+B)">
+              <Package size={14} /> Build
+            </button>
+            <button onClick={() => execute('build.configure')} title="Configure build…">
+              <Settings2 size={14} />
+            </button>
+            <button onClick={() => execute('file.save')} disabled={!selectedFileId}>
+              <Save size={14} /> Save
+            </button>
+            <button onClick={() => execute('file.newFile')}>+ File</button>
+            <button onClick={() => execute('file.newFolder')}>+ Folder</button>
+            <button onClick={() => execute('project.export')} title="Export as .zip">
+              <Download size={14} /> Export
+            </button>
+            <button onClick={() => execute('project.import')} title="Import .zip">
+              <Upload size={14} /> Import
+            </button>
+            <button onClick={() => execute('project.openFolder')} title="Open local folder…">
+              <FolderOpen size={14} /> Open Folder
+            </button>
+            <input
+              ref={setImportInput}
+              type="file"
+              accept=".zip,application/zip"
+              style={{ display: 'none' }}
+              onChange={handleImport}
+            />
+            <button onClick={() => execute('project.reset')} style={{ marginLeft: '10px', color: 'red' }}>
+              Reset
+            </button>
+            <button onClick={() => execute('view.commandPalette')} title="Show all commands (Ctrl+Shift+P)">
+              <Command size={14} />
+            </button>
+            <button onClick={() => execute('preferences.keybindings')} title="Keyboard shortcuts">
+              <Keyboard size={14} />
+            </button>
+          </div>
+          <ProjectSwitcher />
+        </header>
+
+        {error && (
+          <div className="error-banner">
+            <span>{error}</span>
+            {canDownloadBackup && <button onClick={downloadBackup}>Download database backup</button>}
+          </div>
+        )}
+
+        <Group orientation="horizontal">
+          <Panel defaultSize={200}>
+            <div className="sidebar-container">
+              <div className="sidebar-views">
+                <button
+                  className={sidebarView === 'explorer' ? 'active' : ''}
+                  onClick={() => setSidebarView('explorer')}
+                  title="Explorer"
+                >
+                  <Files size={16} />
+                </button>
+                <button
+                  className={sidebarView === 'search' ? 'active' : ''}
+                  onClick={() => setSidebarView('search')}
+                  title="Search (Ctrl+Shift+F)"
                 >
-                  Select a file to edit
+                  <Search size={16} />
+                </button>
+              </div>
+
+              {/* Both views stay mounted so they keep their state */}
+              <div style={{ flex: 1, minHeight: 0, display: sidebarView === 'explorer' ? 'block' : 'none' }}>
+                <Group orientation="vertical">
+                  <Panel>
+                    <FileTree
+                      nodes={files}
+                      onFileSelect={selectFile}
+                      selectedFileId={selectedFileId}
+                      autoFocusKey={explorerFocusKey}
+                    />
+                  </Panel>
+
+                  <Separator className="resize-handle horizontal" />
+
+                  <Panel defaultSize={180}>
+                    <Timeline />
+                  </Panel>
+
+                  <Separator className="resize-handle horizontal" />
+
+                  <Panel defaultSize={160}>
+                    <ScriptsPanel />
+                  </Panel>
+                </Group>
+              </div>
+              <div style={{ flex: 1, minHeight: 0, display: sidebarView === 'search' ? 'block' : 'none' }}>
+                <SearchPanel autoFocusKey={searchFocusKey} />
+              </div>
+            </div>
+          </Panel>
+
+          <Separator className="resize-handle vertical" />
+
+          <Panel>
+            <Group orientation="vertical">
+              <Panel defaultSize={70} minSize={30}>
+                <div className="editor-container" style={{ display: 'flex', flexDirection: 'column' }}>
+                  <EditorTabs />
+                  <div style={{ flex: 1, minHeight: 0 }}>
+                    {activeEditor && activeLanguage && diffView?.fileId === activeEditor.id ?
+                      <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+                        <div className="diff-toolbar">
+                          <span style={{ flex: 1 }}>{diffView.title}</span>
+                          {diffView.revisionId !== null && (
+                            <button onClick={() => restoreRevision(diffView.revisionId!)}>Restore</button>
+                          )}
+                          <button onClick={closeDiff} title="Close diff">
+                            <X size={14} />
+                          </button>
+                        </div>
+                        <div style={{ flex: 1, minHeight: 0 }}>
+                          <DiffEditor
+                            height="100%"
+                            language={activeLanguage.id}
+                            theme="vs-dark"
+                            original={diffView.original}
+                            modified={fileContent}
+                            options={{ readOnly: true, originalEditable: false }}
+                          />
+                        </div>
+                      </div>
+                    : activeEditor && activeLanguage ?
+                      <Editor
+                        height="100%"
+                        path={toModelUri(getFilePath(activeEditor.id) ?? activeEditor.id)}
+                        keepCurrentModel
+                        language={activeLanguage.id}
+                        theme="vs-dark"
+                        options={activeLanguage.editorOptions}
+                        value={fileContent}
+                        onMount={editor => {
+                          editorRef.current = editor;
+                        }}
+                        onChange={(value) => updateFileContent(value || '')}
+                      />
+                    : <div
+                        style={{
+                          height: '100%',
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          color: '#666'
+                        }}
+                      >
+                        Select a file to edit
+                      </div>
+                    }
+                  </div>
                 </div>
-              }
-            </Panel>
-
-            <Separator className="resize-handle horizontal" />
-
-            <Panel defaultSize={20}>
-              <TerminalComponent ref={terminalRef} />
-            </Panel>
-          </Group>
-        </Panel>
-      </Group>
-    </div>
+              </Panel>
+
+              <Separator className="resize-handle horizontal" />
+
+              <Panel panelRef={setTerminalPanel} defaultSize={20} collapsible>
+                <Group orientation="horizontal">
+                  <Panel>
+                    <TerminalTabs />
+                  </Panel>
+
+                  <Separator className="resize-handle vertical" />
+
+                  <Panel defaultSize={360}>
+                    <PreviewPanel />
+                  </Panel>
+
+                  <Separator className="resize-handle vertical" />
+
+                  <Panel defaultSize={240}>
+                    <ProcessPanel />
+                  </Panel>
+                </Group>
+              </Panel>
+            </Group>
+          </Panel>
+        </Group>
+
+        <StatusBar />
+
+        {isQuickOpenVisible && (
+          <QuickOpen
+            onClose={() => setQuickOpenVisible(false)}
+            onOpen={id => {
+              setSidebarView('explorer');
+              revealFile(id);
+            }}
+          />
+        )}
+
+        {isCommandPaletteVisible && <CommandPalette onClose={() => setCommandPaletteVisible(false)} />}
+
+        {isBuildDialogVisible && (
+          <BuildDialog
+            onClose={() => setBuildDialogVisible(false)}
+            onBuild={config => buildProject(ide, ui, config)}
+          />
+        )}
+
+        {isRunConfigurationsVisible && (
+          <RunConfigurationsDialog onClose={() => setRunConfigurationsVisible(false)} />
+        )}
+
+        {isRunnersDialogVisible && <RunnersDialog onClose={() => setRunnersDialogVisible(false)} />}
+
+        {isKeybindingsVisible && (
+          <KeybindingsEditor defaults={defaultCommands} onClose={() => setKeybindingsVisible(false)} />
+        )}
+      </div>
+    </CommandContext.Provider>
   );
 }
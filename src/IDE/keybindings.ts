@@ -0,0 +1,212 @@
+import type { Command } from './commands';
+import type { KeybindingOverrides } from './service/types';
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  space: ' ',
+  backquote: '`',
+  del: 'delete'
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+// Lower-cased, `Cmd` folded into `Ctrl`, modifiers in a fixed order, so equal bindings compare equal
+export function normalizeKeybinding(keybinding: string): string {
+  const parts = keybinding.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1).map(modifier => (modifier === 'cmd' ? 'ctrl' : modifier)));
+  const ordered = ['ctrl', 'shift', 'alt'].filter(modifier => modifiers.has(modifier));
+  return [...ordered, KEY_ALIASES[key] ?? key].join('+');
+}
+
+// Letters and digits by physical key (`KeyN`, `Digit1`), since Option on macOS and Shift change `e.key`
+function letterOrDigitFromCode(code: string): string | null {
+  const match = /^(?:Key([A-Z])|Digit(\d))$/.exec(code);
+  return match ? (match[1] ?? match[2]).toLowerCase() : null;
+}
+
+export function matchesKeybinding(e: KeyboardEvent, keybinding: string): boolean {
+  const parts = keybinding.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+  const pressed = /^[a-z0-9]$/.test(key) ? letterOrDigitFromCode(e.code) : e.key.toLowerCase();
+
+  return (
+    (modifiers.has('ctrl') || modifiers.has('cmd')) === (e.ctrlKey || e.metaKey) &&
+    modifiers.has('shift') === e.shiftKey &&
+    modifiers.has('alt') === e.altKey &&
+    (KEY_ALIASES[key] ?? key) === pressed
+  );
+}
+
+// The binding a key press would be written as, or null while only modifiers are held
+export function keybindingFromEvent(e: KeyboardEvent | React.KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  const letterOrDigit = letterOrDigitFromCode(e.code);
+  const key =
+    letterOrDigit ? letterOrDigit.toUpperCase()
+    : e.key === ' ' ? 'Space'
+    : e.key === 'Escape' ? 'Esc'
+    : e.key.length === 1 ? e.key.toUpperCase()
+    : e.key;
+  return [e.ctrlKey || e.metaKey ? 'Ctrl' : '', e.shiftKey ? 'Shift' : '', e.altKey ? 'Alt' : '', key]
+    .filter(Boolean)
+    .join('+');
+}
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Shows `Ctrl` as `⌘` on macOS
+export function formatKeybinding(keybinding: string): string {
+  return isMac ? keybinding.replace(/Ctrl\+/g, '⌘') : keybinding;
+}
+
+/**
+ * Context keys for a key press, derived from where focus is: `editorFocus` inside Monaco,
+ * `terminalFocus` inside xterm, `<name>Focus` inside an element marked
+ * `data-focus-context="<name>"`, and `inputFocus` in any other text field.
+ */
+export function getKeybindingContext(target: EventTarget | null): Set<string> {
+  const context = new Set<string>();
+  if (!(target instanceof Element)) return context;
+
+  if (target.closest('.monaco-editor')) {
+    context.add('editorFocus');
+  } else if (target.closest('.xterm')) {
+    context.add('terminalFocus');
+  } else if (target.matches('input, textarea, select, [contenteditable="true"]')) {
+    context.add('inputFocus');
+  }
+
+  const area = target.closest<HTMLElement>('[data-focus-context]')?.dataset.focusContext;
+  if (area) context.add(`${area}Focus`);
+  return context;
+}
+
+/**
+ * Evaluates a `when` clause: context keys, optionally negated with `!`, joined with `&&`
+ * and `||` (`&&` binds tighter). An empty clause always holds.
+ */
+export function evaluateWhen(when: string | undefined, context: Set<string>): boolean {
+  if (!when || when.trim() === '') return true;
+
+  return when.split('||').some(conjunction =>
+    conjunction.split('&&').every(term => {
+      const key = term.trim();
+      return key.startsWith('!') ? !context.has(key.slice(1).trim()) : context.has(key);
+    })
+  );
+}
+
+export const WHEN_CONTEXT_KEYS = ['editorFocus', 'explorerFocus', 'searchFocus', 'terminalFocus', 'inputFocus'];
+
+// One representative focus state per place a key press can come from
+const FOCUS_STATES = [
+  new Set<string>(),
+  new Set(['editorFocus']),
+  new Set(['explorerFocus']),
+  new Set(['explorerFocus', 'inputFocus']),
+  new Set(['searchFocus', 'inputFocus']),
+  new Set(['terminalFocus']),
+  new Set(['inputFocus'])
+];
+
+const canOverlap = (a: string | undefined, b: string | undefined) =>
+  FOCUS_STATES.some(state => evaluateWhen(a, state) && evaluateWhen(b, state));
+
+/**
+ * Monaco's default bindings (Windows/Linux notation). Monaco handles these before the
+ * IDE sees the key press, so an IDE binding on the same keys never fires in the editor.
+ */
+export const MONACO_KEYBINDINGS: Record<string, string> = {
+  'Ctrl+F': 'Find',
+  'Ctrl+H': 'Replace',
+  'Ctrl+G': 'Go to Line',
+  'Ctrl+D': 'Add Selection to Next Find Match',
+  'Ctrl+Shift+L': 'Select All Occurrences',
+  'Ctrl+F2': 'Change All Occurrences',
+  'Ctrl+L': 'Expand Line Selection',
+  'Ctrl+U': 'Cursor Undo',
+  'Ctrl+/': 'Toggle Line Comment',
+  'Shift+Alt+A': 'Toggle Block Comment',
+  'Ctrl+]': 'Indent Line',
+  'Ctrl+[': 'Outdent Line',
+  'Alt+ArrowUp': 'Move Line Up',
+  'Alt+ArrowDown': 'Move Line Down',
+  'Shift+Alt+ArrowUp': 'Copy Line Up',
+  'Shift+Alt+ArrowDown': 'Copy Line Down',
+  'Ctrl+Shift+K': 'Delete Line',
+  'Ctrl+Enter': 'Insert Line Below',
+  'Ctrl+Shift+Enter': 'Insert Line Above',
+  'Ctrl+Shift+\\': 'Go to Bracket',
+  'Ctrl+Shift+[': 'Fold',
+  'Ctrl+Shift+]': 'Unfold',
+  'Shift+Alt+F': 'Format Document',
+  'Shift+Alt+ArrowRight': 'Expand Selection',
+  'Shift+Alt+ArrowLeft': 'Shrink Selection',
+  'Ctrl+Space': 'Trigger Suggest',
+  'Ctrl+I': 'Trigger Suggest',
+  'Ctrl+Shift+Space': 'Trigger Parameter Hints',
+  'Ctrl+.': 'Quick Fix',
+  'Ctrl+K': 'Chord prefix (Ctrl+K …)',
+  F1: 'Command Palette',
+  F2: 'Rename Symbol',
+  F8: 'Go to Next Problem',
+  'Shift+F8': 'Go to Previous Problem',
+  F12: 'Go to Definition',
+  'Alt+F12': 'Peek Definition',
+  'Shift+F12': 'Go to References',
+  'Ctrl+A': 'Select All',
+  'Ctrl+Z': 'Undo',
+  'Ctrl+Y': 'Redo',
+  'Ctrl+Shift+Z': 'Redo',
+  'Ctrl+X': 'Cut',
+  'Ctrl+C': 'Copy',
+  'Ctrl+V': 'Paste',
+  Tab: 'Indent / Accept Suggestion',
+  'Shift+Tab': 'Outdent',
+  Delete: 'Delete Right'
+};
+
+const MONACO_BY_NORMALIZED = new Map(
+  Object.entries(MONACO_KEYBINDINGS).map(([keybinding, title]) => [normalizeKeybinding(keybinding), title])
+);
+
+export interface KeybindingConflict {
+  source: 'monaco' | 'command';
+  title: string;
+}
+
+// Everything else that would react to `keybinding` in a context where `when` holds
+export function findKeybindingConflicts(
+  commands: Command[],
+  commandId: string,
+  keybinding: string,
+  when: string | undefined
+): KeybindingConflict[] {
+  const normalized = normalizeKeybinding(keybinding);
+  const conflicts: KeybindingConflict[] = [];
+
+  const monacoTitle = MONACO_BY_NORMALIZED.get(normalized);
+  if (monacoTitle && evaluateWhen(when, new Set(['editorFocus']))) {
+    conflicts.push({ source: 'monaco', title: `Editor: ${monacoTitle}` });
+  }
+
+  for (const command of commands) {
+    if (command.id === commandId || !command.keybinding) continue;
+    if (normalizeKeybinding(command.keybinding) === normalized && canOverlap(when, command.when)) {
+      conflicts.push({ source: 'command', title: `${command.category}: ${command.title}` });
+    }
+  }
+  return conflicts;
+}
+
+// Applies the user's bindings over the defaults declared on each command
+export function applyKeybindingOverrides(commands: Command[], overrides: KeybindingOverrides): Command[] {
+  return commands.map(command => {
+    const override = overrides[command.id];
+    if (!override) return command;
+    return { ...command, keybinding: override.keybinding ?? undefined, when: override.when };
+  });
+}
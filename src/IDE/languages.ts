@@ -0,0 +1,135 @@
+import {
+  File,
+  FileBraces,
+  FileCode,
+  FileCog,
+  FileImage,
+  FileKey,
+  FileTerminal,
+  FileText,
+  FileType,
+  Container,
+  GitBranch,
+  Globe,
+  Hash,
+  Package,
+  type LucideIcon
+} from 'lucide-react';
+
+export interface LanguageDefinition {
+  // Monaco language id
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  color: string;
+  editorOptions?: {
+    tabSize?: number;
+    insertSpaces?: boolean;
+    wordWrap?: 'on' | 'off';
+  };
+}
+
+export const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: { id: 'javascript', label: 'JavaScript', icon: FileCode, color: '#f1e05a' },
+  typescript: { id: 'typescript', label: 'TypeScript', icon: FileCode, color: '#3178c6' },
+  json: { id: 'json', label: 'JSON', icon: FileBraces, color: '#cbcb41' },
+  css: { id: 'css', label: 'CSS', icon: Hash, color: '#563d7c' },
+  scss: { id: 'scss', label: 'SCSS', icon: Hash, color: '#c6538c' },
+  less: { id: 'less', label: 'Less', icon: Hash, color: '#1d365d' },
+  html: { id: 'html', label: 'HTML', icon: Globe, color: '#e34c26' },
+  xml: { id: 'xml', label: 'XML', icon: FileCode, color: '#0060ac' },
+  markdown: {
+    id: 'markdown',
+    label: 'Markdown',
+    icon: FileText,
+    color: '#519aba',
+    editorOptions: { wordWrap: 'on' }
+  },
+  yaml: { id: 'yaml', label: 'YAML', icon: FileCog, color: '#cb171e', editorOptions: { tabSize: 2 } },
+  shell: { id: 'shell', label: 'Shell Script', icon: FileTerminal, color: '#89e051' },
+  python: { id: 'python', label: 'Python', icon: FileCode, color: '#3572a5', editorOptions: { tabSize: 4 } },
+  dockerfile: { id: 'dockerfile', label: 'Dockerfile', icon: Container, color: '#384d54' },
+  ini: { id: 'ini', label: 'Properties', icon: FileCog, color: '#858585' },
+  dotenv: { id: 'ini', label: 'Environment', icon: FileKey, color: '#ecd53f' },
+  ignore: { id: 'plaintext', label: 'Ignore', icon: GitBranch, color: '#f05032' },
+  packageJson: { id: 'json', label: 'JSON (package)', icon: Package, color: '#cb3837' },
+  svg: { id: 'xml', label: 'SVG', icon: FileImage, color: '#ffb13b' },
+  makefile: {
+    id: 'plaintext',
+    label: 'Makefile',
+    icon: FileCog,
+    color: '#427819',
+    editorOptions: { insertSpaces: false }
+  },
+  plaintext: { id: 'plaintext', label: 'Plain Text', icon: File, color: '#858585' },
+  sql: { id: 'sql', label: 'SQL', icon: FileType, color: '#e38c00' }
+};
+
+const EXTENSIONS: Record<string, keyof typeof LANGUAGES> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'typescript',
+  json: 'json',
+  jsonc: 'json',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  html: 'html',
+  htm: 'html',
+  xml: 'xml',
+  svg: 'svg',
+  md: 'markdown',
+  markdown: 'markdown',
+  yml: 'yaml',
+  yaml: 'yaml',
+  sh: 'shell',
+  bash: 'shell',
+  py: 'python',
+  ini: 'ini',
+  sql: 'sql',
+  txt: 'plaintext'
+};
+
+const FILENAMES: Record<string, keyof typeof LANGUAGES> = {
+  'package.json': 'packageJson',
+  'package-lock.json': 'packageJson',
+  'tsconfig.json': 'json',
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+  '.gitignore': 'ignore',
+  '.npmignore': 'ignore',
+  '.dockerignore': 'ignore',
+  '.npmrc': 'ini',
+  '.editorconfig': 'ini'
+};
+
+/**
+ * Resolves the language for a file name: exact file names win over `.env*` files, which win over the extension.
+ */
+export function detectLanguage(fileName: string): LanguageDefinition {
+  const special = FILENAMES[fileName];
+  if (special) return LANGUAGES[special];
+
+  if (fileName === '.env' || fileName.startsWith('.env.')) return LANGUAGES.dotenv;
+
+  const dotIndex = fileName.lastIndexOf('.');
+  if (dotIndex > 0) {
+    const ext = EXTENSIONS[fileName.slice(dotIndex + 1).toLowerCase()];
+    if (ext) return LANGUAGES[ext];
+  }
+
+  return LANGUAGES.plaintext;
+}
+
+/**
+ * Language for the editor, honouring a user-selected mode (a `LANGUAGES` key) over the detected one.
+ */
+export function resolveLanguage(fileName: string, override?: string | null): LanguageDefinition {
+  if (override && LANGUAGES[override]) return LANGUAGES[override];
+  return detectLanguage(fileName);
+}
@@ -0,0 +1,201 @@
+import * as esbuild from 'esbuild-wasm';
+import wasmURL from 'esbuild-wasm/esbuild.wasm?url';
+
+export type BuildFormat = 'esm' | 'cjs' | 'iife';
+
+export interface BuildConfig {
+  // Project path, e.g. `src/index.ts`
+  entryPoint: string;
+  format: BuildFormat;
+  minify: boolean;
+  sourcemap: boolean;
+  // esbuild target list, e.g. `es2020` or `es2020,chrome100`
+  target: string;
+}
+
+export interface BuildSummary {
+  // Project paths written under `BUILD_OUTDIR`
+  outputs: string[];
+  errors: number;
+  warnings: number;
+}
+
+// Where build output lands in the project tree
+export const BUILD_OUTDIR = 'dist';
+
+export const DEFAULT_BUILD_CONFIG: Omit<BuildConfig, 'entryPoint'> = {
+  format: 'esm',
+  minify: false,
+  sourcemap: true,
+  target: 'es2020'
+};
+
+// Project files the bundler can see: project path -> record id, contents read on demand
+export interface BundleSources {
+  paths: Map<string, string>;
+  read: (id: string) => Promise<string>;
+}
+
+export interface BundleResult {
+  outputs: { path: string; content: string }[];
+  errors: esbuild.Message[];
+  warnings: esbuild.Message[];
+}
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+// TypeScript sources import their siblings by the emitted name (`./util.js` for `util.ts`)
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+const LOADERS: Record<string, esbuild.Loader> = {
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.jsx': 'jsx',
+  '.json': 'json',
+  '.css': 'css'
+};
+
+let _initialized: Promise<void> | null = null;
+
+// esbuild-wasm may only be initialized once per page
+function initializeEsbuild(): Promise<void> {
+  if (!_initialized) {
+    _initialized = esbuild.initialize({ wasmURL }).catch((err: unknown) => {
+      _initialized = null;
+      throw err;
+    });
+  }
+  return _initialized;
+}
+
+const extensionOf = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+const dirnameOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+// Resolves `.` and `..` segments of a slash-separated path; the result has no leading slash
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// Tries the path as written, with each extension, as a directory index, then by its emitted name
+function resolveFile(path: string, exists: (path: string) => boolean): string | null {
+  const candidates = [
+    path,
+    ...RESOLVE_EXTENSIONS.map(extension => path + extension),
+    ...RESOLVE_EXTENSIONS.map(extension => `${path}/index${extension}`)
+  ];
+  const extension = extensionOf(path);
+  for (const replacement of EMITTED_EXTENSIONS[extension] ?? []) {
+    candidates.push(path.slice(0, -extension.length) + replacement);
+  }
+  return candidates.find(exists) ?? null;
+}
+
+/**
+ * Serves relative and root-absolute imports from the project files, so builds read the
+ * stored contents rather than the container's disk. Package imports stay external: their
+ * code lives in the container's `node_modules`, which is not part of the project.
+ */
+export function createVirtualFsPlugin(sources: BundleSources): esbuild.Plugin {
+  return {
+    name: 'project-files',
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, args => {
+        const isProjectPath = args.path.startsWith('.') || args.path.startsWith('/');
+        if (!isProjectPath) {
+          return { path: args.path, external: true };
+        }
+
+        const base = args.path.startsWith('/') ? '' : dirnameOf(args.importer) || args.resolveDir;
+        const resolved = resolveFile(normalizePath(`${base}/${args.path}`), path => sources.paths.has(path));
+        if (!resolved) {
+          return { errors: [{ text: `Could not resolve "${args.path}"` }] };
+        }
+        return { path: `/${resolved}` };
+      });
+
+      build.onLoad({ filter: /.*/ }, async args => {
+        const id = sources.paths.get(normalizePath(args.path));
+        if (!id) {
+          return { errors: [{ text: `File not found: ${args.path}` }] };
+        }
+        return { contents: await sources.read(id), loader: LOADERS[extensionOf(args.path)] ?? 'text' };
+      });
+    }
+  };
+}
+
+// `options` are passed to esbuild on top of the config, e.g. `platform` for runs in the container
+export async function bundle(
+  sources: BundleSources,
+  config: BuildConfig,
+  outdir: string = BUILD_OUTDIR,
+  options: esbuild.BuildOptions = {}
+): Promise<BundleResult> {
+  await initializeEsbuild();
+
+  try {
+    const result = await esbuild.build({
+      entryPoints: [`/${config.entryPoint}`],
+      bundle: true,
+      write: false,
+      // Relative paths in messages and sourcemaps
+      absWorkingDir: '/',
+      outdir: `/${outdir}`,
+      format: config.format,
+      minify: config.minify,
+      sourcemap: config.sourcemap ? 'linked' : false,
+      target: config.target.split(',').map(target => target.trim()).filter(Boolean),
+      logLevel: 'silent',
+      plugins: [createVirtualFsPlugin(sources)],
+      ...options
+    });
+
+    return {
+      outputs: (result.outputFiles ?? []).map(file => ({ path: normalizePath(file.path), content: file.text })),
+      errors: result.errors,
+      warnings: result.warnings
+    };
+  } catch (err) {
+    // A failed build rejects with its messages attached
+    const failure = err as Partial<esbuild.BuildFailure>;
+    if (!failure.errors) throw err;
+    return { outputs: [], errors: failure.errors, warnings: failure.warnings ?? [] };
+  }
+}
+
+// A single TypeScript file as a classic script, without bundling; it may only import types
+export async function transpileScript(code: string): Promise<string> {
+  await initializeEsbuild();
+  const result = await esbuild.transform(code, { loader: 'ts', format: 'iife', target: 'es2022' });
+  return result.code;
+}
+
+// Errors and warnings as terminal text, each with `file:line:column` and a code frame
+export async function formatBuildMessages({ errors, warnings }: Pick<BundleResult, 'errors' | 'warnings'>) {
+  const formatted = [
+    ...(await esbuild.formatMessages(errors, { kind: 'error', color: true })),
+    ...(await esbuild.formatMessages(warnings, { kind: 'warning', color: true }))
+  ];
+  return formatted.join('').replace(/\r?\n/g, '\r\n');
+}
@@ -0,0 +1,214 @@
+import type { WebContainer } from '@webcontainer/api';
+import { buildPathIndex } from './fileUtils';
+import type { FileRecord } from './types';
+
+export const DEFAULT_SYNC_IGNORE = ['node_modules', '.git', '.npm', '.cache'];
+
+// Events caused by our own writes can arrive a little after the write resolves
+const MUTE_GRACE_MS = 250;
+const DEBOUNCE_MS = 300;
+
+export interface ExternalChanges {
+  created: string[];
+  modified: { id: string; content: string }[];
+  deleted: string[];
+  // Deletions not mirrored because the file has unsaved edits in the editor
+  keptDirty: string[];
+}
+
+export interface ContainerSyncTarget {
+  getRecords(): FileRecord[];
+  createFile(name: string, parentId: string | null, type: 'file' | 'folder', content?: string): Promise<string>;
+  saveFileContent(id: string, content: string): Promise<void>;
+  deleteFile(id: string): Promise<void>;
+  isDirty(id: string): boolean;
+  // Called once per applied batch, after the DB reflects the container; awaited before the next
+  // batch so it reads records that include this one
+  onChanges(changes: ExternalChanges): Promise<void>;
+  onError(err: unknown): void;
+}
+
+export interface ContainerSync {
+  // Runs `fn` with events ignored, for writes that originate from the IDE itself
+  mute<T>(fn: () => Promise<T>): Promise<T>;
+  // Drops queued events, e.g. once they belong to a project that is no longer active
+  discard(): void;
+  stop(): void;
+}
+
+// Ignore rules match whole path segments; `*` matches any run of characters (e.g. `*.log`)
+function createIgnoreMatcher(patterns: string[]) {
+  const regexes = patterns.map(
+    pattern => new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`)
+  );
+  return (path: string) => path.split('/').some(segment => regexes.some(regex => regex.test(segment)));
+}
+
+const normalizePath = (path: string) => path.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+
+/**
+ * Watches the container workdir and mirrors creates, modifies and deletes into the `files` table.
+ *
+ * Changes are reconciled against the current state rather than replayed, so an event for a path
+ * whose content already matches the DB (e.g. our own mount) is a no-op.
+ */
+export function createContainerSync(
+  webContainer: WebContainer,
+  target: ContainerSyncTarget,
+  ignore: string[] = DEFAULT_SYNC_IGNORE
+): ContainerSync {
+  const isIgnored = createIgnoreMatcher(ignore);
+  const pending = new Set<string>();
+  let muted = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const reconcile = async (paths: string[]) => {
+    const changes: ExternalChanges = { created: [], modified: [], deleted: [], keptDirty: [] };
+    const records = target.getRecords();
+    const index = buildPathIndex(records);
+    const byPath = new Map<string, Pick<FileRecord, 'id' | 'type' | 'content'>>();
+    records.forEach(record => {
+      const path = index.get(record.id);
+      if (path) byPath.set(path, record);
+    });
+
+    const hasDirtyDescendant = (path: string) =>
+      Array.from(byPath.entries()).some(
+        ([candidate, record]) =>
+          (candidate === path || candidate.startsWith(`${path}/`)) && target.isDirty(record.id)
+      );
+
+    const forget = (path: string) => {
+      Array.from(byPath.keys())
+        .filter(candidate => candidate === path || candidate.startsWith(`${path}/`))
+        .forEach(candidate => byPath.delete(candidate));
+    };
+
+    const ensureFolder = async (path: string): Promise<string | null> => {
+      if (path === '') return null;
+
+      const existing = byPath.get(path);
+      if (existing?.type === 'folder') return existing.id;
+
+      const slash = path.lastIndexOf('/');
+      const parentId = await ensureFolder(slash === -1 ? '' : path.slice(0, slash));
+      if (existing) {
+        await target.deleteFile(existing.id);
+        changes.deleted.push(existing.id);
+        forget(path);
+      }
+      const id = await target.createFile(path.slice(slash + 1), parentId, 'folder');
+      byPath.set(path, { id, type: 'folder', content: null });
+      changes.created.push(id);
+      return id;
+    };
+
+    const queue = [...paths].sort((a, b) => a.split('/').length - b.split('/').length);
+    const seen = new Set<string>();
+
+    while (queue.length > 0) {
+      const path = queue.shift()!;
+      if (seen.has(path) || isIgnored(path)) continue;
+      seen.add(path);
+
+      const existing = byPath.get(path);
+
+      // Directory: make sure it exists and look at its children
+      const children = await webContainer.fs.readdir(path, { withFileTypes: true }).catch(() => null);
+      if (children) {
+        if (path !== '') await ensureFolder(path);
+        children.forEach(child => queue.push(path ? `${path}/${child.name}` : child.name));
+        continue;
+      }
+
+      const bytes = await webContainer.fs.readFile(path).catch(() => null);
+      if (bytes) {
+        // The files table only holds text
+        if (bytes.includes(0)) continue;
+        const content = new TextDecoder().decode(bytes);
+
+        if (existing?.type === 'file') {
+          if ((existing.content ?? '') !== content) {
+            await target.saveFileContent(existing.id, content);
+            changes.modified.push({ id: existing.id, content });
+          }
+          continue;
+        }
+
+        const slash = path.lastIndexOf('/');
+        const parentId = await ensureFolder(slash === -1 ? '' : path.slice(0, slash));
+        if (existing) {
+          await target.deleteFile(existing.id);
+          changes.deleted.push(existing.id);
+          forget(path);
+        }
+        const id = await target.createFile(path.slice(slash + 1), parentId, 'file', content);
+        byPath.set(path, { id, type: 'file', content });
+        changes.created.push(id);
+        continue;
+      }
+
+      // Gone from the container
+      if (!existing) continue;
+      if (hasDirtyDescendant(path)) {
+        // Unsaved edits win: keep the record, the next save writes it back
+        changes.keptDirty.push(existing.id);
+        continue;
+      }
+      await target.deleteFile(existing.id);
+      changes.deleted.push(existing.id);
+      forget(path);
+    }
+
+    const { created, modified, deleted, keptDirty } = changes;
+    if (created.length + modified.length + deleted.length + keptDirty.length > 0) {
+      await target.onChanges(changes);
+    }
+  };
+
+  const flush = () => {
+    const paths = Array.from(pending);
+    pending.clear();
+    // Batches run one after another so they never race on the same records
+    running = running
+      .then(() => (stopped ? undefined : reconcile(paths)))
+      .catch(err => target.onError(err));
+  };
+
+  const watcher = webContainer.fs.watch('.', { recursive: true }, (_, filename) => {
+    if (muted > 0 || stopped) return;
+
+    const path = normalizePath(typeof filename === 'string' ? filename : new TextDecoder().decode(filename));
+    if (isIgnored(path)) return;
+
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+
+  return {
+    async mute(fn) {
+      muted++;
+      try {
+        // Let a batch in progress finish before the IDE touches the same files
+        await running;
+        return await fn();
+      } finally {
+        setTimeout(() => muted--, MUTE_GRACE_MS);
+      }
+    },
+
+    discard() {
+      pending.clear();
+      clearTimeout(timer);
+    },
+
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      watcher.close();
+    }
+  };
+}
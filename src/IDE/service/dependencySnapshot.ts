@@ -0,0 +1,76 @@
+// Binary `node_modules` snapshots in the origin private file system, one directory per project
+const SNAPSHOT_ROOT = 'node_modules-snapshots';
+
+async function getProjectDirectory(projectId: string, create: boolean): Promise<FileSystemDirectoryHandle | null> {
+  if (!navigator.storage?.getDirectory) return null;
+  try {
+    const root = await navigator.storage.getDirectory();
+    const snapshots = await root.getDirectoryHandle(SNAPSHOT_ROOT, { create });
+    return await snapshots.getDirectoryHandle(projectId, { create });
+  } catch {
+    // NotFoundError when nothing was stored yet
+    return null;
+  }
+}
+
+// Collected first: removing entries while iterating the directory skips some of them
+async function removeEntries(directory: FileSystemDirectoryHandle, names: string[]) {
+  for (const name of names) {
+    await directory.removeEntry(name, { recursive: true });
+  }
+}
+
+/**
+ * Snapshot key: changes whenever package.json or the lockfile does, which invalidates the snapshot.
+ */
+export async function hashDependencies(manifest: string, lockfile: string | null): Promise<string> {
+  const data = new TextEncoder().encode(`${manifest}\0${lockfile ?? ''}`);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Returns the snapshot stored under `hash`; snapshots under any other key are stale and removed
+export async function loadSnapshot(projectId: string, hash: string): Promise<Uint8Array | null> {
+  const directory = await getProjectDirectory(projectId, false);
+  if (!directory) return null;
+
+  let snapshot: Uint8Array | null = null;
+  const stale: string[] = [];
+  for await (const entry of directory.values()) {
+    if (entry.kind === 'file' && entry.name === `${hash}.bin`) {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      snapshot = new Uint8Array(await file.arrayBuffer());
+    } else {
+      stale.push(entry.name);
+    }
+  }
+  await removeEntries(directory, stale);
+  return snapshot;
+}
+
+export async function saveSnapshot(projectId: string, hash: string, bytes: Uint8Array): Promise<void> {
+  const directory = await getProjectDirectory(projectId, true);
+  if (!directory) return;
+
+  const handle = await directory.getFileHandle(`${hash}.bin`, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(bytes as BlobPart);
+  await writable.close();
+
+  const stale: string[] = [];
+  for await (const entry of directory.values()) {
+    if (entry.name !== `${hash}.bin`) stale.push(entry.name);
+  }
+  await removeEntries(directory, stale);
+}
+
+export async function deleteSnapshots(projectId: string): Promise<void> {
+  if (!navigator.storage?.getDirectory) return;
+  try {
+    const root = await navigator.storage.getDirectory();
+    const snapshots = await root.getDirectoryHandle(SNAPSHOT_ROOT);
+    await snapshots.removeEntry(projectId, { recursive: true });
+  } catch {
+    // Nothing stored for this project
+  }
+}
@@ -1,4 +1,5 @@
 import type { FileRecord } from '../db';
+import type { ImportSummary } from './types';
 import type { FileNode } from '../FileTree';
 
 export function buildTree(files: FileRecord[]): FileNode[] {
@@ -30,13 +31,14 @@ export function buildTree(files: FileRecord[]): FileNode[] {
   return roots;
 }
 
-export function generateFilePaths(files: FileRecord[]): Record<string, string> {
+/**
+ * Maps every record id (files and folders) to its slash-separated path from the root.
+ */
+export function buildPathIndex(files: FileRecord[]): Map<string, string> {
   const fileMap = new Map<string, FileRecord>(files.map(f => [f.id, f]));
-  const paths: Record<string, string> = {};
+  const index = new Map<string, string>();
 
   files.forEach(file => {
-    if (file.type === 'folder') return;
-
     let current: FileRecord | undefined = file;
     const pathParts: string[] = [];
 
@@ -50,9 +52,75 @@ export function generateFilePaths(files: FileRecord[]): Record<string, string> {
     }
 
     if (pathParts.length > 0) {
-      paths[pathParts.join('/')] = file.content || '';
+      index.set(file.id, pathParts.join('/'));
+    }
+  });
+
+  return index;
+}
+
+export function generateFilePaths(files: FileRecord[]): Record<string, string> {
+  const index = buildPathIndex(files);
+  const paths: Record<string, string> = {};
+
+  files.forEach(file => {
+    if (file.type === 'folder') return;
+
+    const path = index.get(file.id);
+    if (path) {
+      paths[path] = file.content || '';
     }
   });
 
   return paths;
 }
+
+export function findNode(nodes: FileNode[], id: string): FileNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    if (node.children) {
+      const found = findNode(node.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// Folders containing `id`, outermost first; empty for root-level or unknown nodes
+export function findAncestorIds(nodes: FileNode[], id: string): string[] {
+  for (const node of nodes) {
+    if (node.id === id) return [];
+    if (node.children) {
+      const path = findAncestorIds(node.children, id);
+      if (path.length > 0 || node.children.some(child => child.id === id)) return [node.id, ...path];
+    }
+  }
+  return [];
+}
+
+export function collectNodeIds(node: FileNode): string[] {
+  return [node.id, ...(node.children ?? []).flatMap(collectNodeIds)];
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker ("YYYY-MM-DD HH:MM:SS")
+export function parseTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+export function describeImportSummary({ created, overwritten, renamed, skipped }: ImportSummary): string {
+  return `${created} created, ${overwritten} overwritten, ${renamed} renamed, ${skipped} skipped`;
+}
+
+// Only string-valued entries are runnable with `npm run`
+export function parsePackageScripts(content: string | null): Record<string, string> {
+  if (!content) return {};
+  try {
+    const scripts = (JSON.parse(content) as { scripts?: unknown }).scripts;
+    if (!scripts || typeof scripts !== 'object') return {};
+    return Object.fromEntries(
+      Object.entries(scripts).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,52 @@
+export interface FuzzyMatch {
+  score: number;
+  // Positions in the candidate that matched the query, for highlighting
+  indices: number[];
+}
+
+const isBoundary = (text: string, index: number) => index === 0 || '/._- '.includes(text[index - 1]);
+
+/**
+ * Matches `query` as a case-insensitive subsequence of `candidate` (e.g. `srcidx` in
+ * `src/index.ts`). Consecutive characters, segment starts and matches in the file name
+ * score higher. Returns null when some query character can't be placed.
+ */
+export function fuzzyMatch(query: string, candidate: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  if (needle === '') return { score: 0, indices: [] };
+
+  const haystack = candidate.toLowerCase();
+  const nameStart = candidate.lastIndexOf('/') + 1;
+
+  // Prefer placing the query inside the file name when it fits there entirely
+  const inName = matchFrom(needle, haystack, candidate, nameStart);
+  const anywhere = matchFrom(needle, haystack, candidate, 0);
+  if (!inName) return anywhere;
+  if (!anywhere) return inName;
+  return inName.score >= anywhere.score ? inName : anywhere;
+}
+
+function matchFrom(needle: string, haystack: string, candidate: string, start: number): FuzzyMatch | null {
+  const nameStart = candidate.lastIndexOf('/') + 1;
+  const indices: number[] = [];
+  let score = 0;
+  let position = start;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isBoundary(candidate, index)) score += 3;
+    if (index >= nameStart) score += 2;
+    if (previous !== undefined) score -= Math.min(index - previous - 1, 5) * 0.5;
+
+    indices.push(index);
+    position = index + 1;
+  }
+
+  // Shorter paths win ties
+  return { score: score - candidate.length * 0.01, indices };
+}
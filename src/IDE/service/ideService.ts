@@ -1,9 +1,156 @@
-import type { WebContainer } from '@webcontainer/api';
-import { buildTree, generateFilePaths } from './fileUtils';
-import type { IDEService, IDEDependencies, FileRecord } from './types';
+import type { SpawnOptions, WebContainer } from '@webcontainer/api';
+import { buildPathIndex, buildTree, generateFilePaths } from './fileUtils';
+import { collectTypeDeclarations } from './typeDeclarations';
+import { createZip, makeUniqueName, readZip, type ArchiveEntry, type ConflictPolicy } from './zipArchive';
+import { readDirectoryHandle, readDroppedEntries, type LocalFileSource } from './localFiles';
+import {
+  createGlobFilter,
+  createMatcher,
+  findMatches,
+  getIndexPhrase,
+  MAX_SEARCH_MATCHES,
+  replaceMatches,
+  type SearchQuery,
+  type SearchResult
+} from './search';
+import { deleteSnapshots, hashDependencies, loadSnapshot, saveSnapshot } from './dependencySnapshot';
+import { BUILD_OUTDIR, bundle, formatBuildMessages, type BuildConfig } from './bundler';
+import { startWorkerProcess, WORKER_CWD } from './workerRunner';
+import { buildRunCommand, resolveRunner, TRANSPILE_OUTDIR, type RunnerMapping } from './runners';
+import { parseDotenv, splitCommandLine, type RunConfiguration } from './runConfigurations';
+import { createSourceMapLookup } from './sourceMaps';
+import { createContainerSync, type ContainerSync, type ExternalChanges } from './containerSync';
+import type {
+  IDEService,
+  IDEDependencies,
+  FileRecord,
+  ImportSummary,
+  KeybindingOverrides,
+  ProcessInfo,
+  ServerInfo,
+  ShellOptions,
+  TaskSession
+} from './types';
+import type { TerminalDimensions } from '../TerminalComponent';
+
+export const DEFAULT_SHELL: ShellOptions = { command: 'jsh' };
+
+// A file to run with everything a run configuration adds; "Run current file" leaves the rest empty
+interface RunTarget {
+  path: string;
+  args: string[];
+  nodeOptions: string;
+  env: Record<string, string>;
+  // Project folder, empty for the root
+  cwd: string;
+}
+
+// The DB change went through but the running container could not follow it
+export class ContainerMirrorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContainerMirrorError';
+  }
+}
+
+function downloadBytes(bytes: Uint8Array, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 export function createIDEService(deps: IDEDependencies): IDEService {
   let _filesCache: FileRecord[] = [];
+  let _projectId: string | null = null;
+  let _sync: ContainerSync | null = null;
+  // Contents before the last project-wide replace, for a single undo step
+  // Contents after it are kept too, so files changed since then are not rolled back
+  let _lastReplace: {
+    projectId: string;
+    before: { id: string; content: string }[];
+    after: { id: string; content: string }[];
+  } | null = null;
+  // `process` is a container process or a worker run; `write` is where its output goes
+  // (the main terminal or a task tab)
+  const _processes = new Map<
+    string,
+    { info: ProcessInfo; process: { kill: () => void }; write: (data: string) => void }
+  >();
+  const _processListeners = new Set<(processes: ProcessInfo[]) => void>();
+  // Transpiled run outputs by project path, for mapping stack trace locations to their sources
+  const _sourceMaps = new Map<string, ReturnType<typeof createSourceMapLookup>>();
+
+  const listProcesses = () => Array.from(_processes.values(), p => p.info);
+
+  const notifyProcessesChange = () => {
+    const processes = listProcesses();
+    _processListeners.forEach(listener => listener(processes));
+  };
+
+  const killProcess = (id: string) => {
+    const tracked = _processes.get(id);
+    if (!tracked) return;
+
+    tracked.process.kill();
+    _processes.delete(id);
+    notifyProcessesChange();
+    tracked.write(`\r\n\x1b[1;33mStopped ${tracked.info.command}\x1b[0m\r\n`);
+  };
+
+  // Lists a process until it exits or is killed
+  const trackProcess = (
+    command: string,
+    process: { kill: () => void; exit: Promise<number> },
+    write: (data: string) => void
+  ): TaskSession => {
+    const info: ProcessInfo = {
+      id: crypto.randomUUID(),
+      command,
+      startedAt: Date.now()
+    };
+    _processes.set(info.id, { info, process, write });
+    notifyProcessesChange();
+
+    const exit = process.exit.then(exitCode => {
+      // Killed processes are already untracked and reported by killProcess
+      if (_processes.delete(info.id)) {
+        notifyProcessesChange();
+        write(`\r\n\x1b[1;33mProcess exited with code ${exitCode}\x1b[0m\r\n`);
+      }
+      return exitCode;
+    });
+
+    return { info, exit };
+  };
+
+  // Spawns a container process that shows up in the process list
+  const spawnTracked = async (
+    webContainer: WebContainer,
+    command: string,
+    args: string[],
+    write: (data: string) => void,
+    dimensions?: TerminalDimensions,
+    options: Pick<SpawnOptions, 'cwd' | 'env'> = {}
+  ): Promise<TaskSession> => {
+    const process = await webContainer.spawn(command, args, dimensions ? { ...options, terminal: dimensions } : options);
+
+    process.output
+      .pipeTo(
+        new WritableStream({
+          write(data) {
+            write(data);
+          }
+        })
+      )
+      .catch((err: unknown) => {
+        write(`\x1b[1;31mProcess output stopped: ${err}\x1b[0m\r\n`);
+      });
+
+    return trackProcess([command, ...args].join(' '), process, write);
+  };
 
   const getPathFromCache = (fileId: string): string | null => {
     const file = _filesCache.find(f => f.id === fileId);
@@ -20,6 +167,244 @@ export function createIDEService(deps: IDEDependencies): IDEService {
     return parts.join('/');
   };
 
+  // Our own writes into the container must not be mirrored back into the DB
+  const withSyncPaused = <T>(fn: () => Promise<T>): Promise<T> => (_sync ? _sync.mute(fn) : fn());
+
+  const openProject = (id: string) =>
+    withSyncPaused(async () => {
+      // Processes belong to the project whose files they were started from
+      Array.from(_processes.keys()).forEach(killProcess);
+      // Container changes seen so far belong to the previous project
+      _sync?.discard();
+      await deps.db.touchProject(id);
+      _projectId = id;
+      _filesCache = [];
+    });
+
+  // Applies a structural change to the container after it was stored in SQLite
+  const mirrorToContainer = async (
+    webContainer: WebContainer | null,
+    description: string,
+    apply: (fs: WebContainer['fs']) => Promise<void>
+  ) => {
+    if (!webContainer) return;
+    try {
+      await withSyncPaused(() => apply(webContainer.fs));
+    } catch (err) {
+      const message = `Could not ${description} in the container: ${err instanceof Error ? err.message : err}`;
+      deps.terminal.write(`\x1b[1;31m${message}\x1b[0m\r\n`);
+      throw new ContainerMirrorError(message);
+    }
+  };
+
+  // Mirrors contents already stored in SQLite into the cache and the container
+  const applyStoredContents = async (
+    changes: { id: string; content: string }[],
+    isWcReady: boolean,
+    writeFile: (path: string, content: string) => Promise<void>
+  ) => {
+    for (const { id, content } of changes) {
+      const cachedFile = _filesCache.find(f => f.id === id);
+      if (cachedFile) cachedFile.content = content;
+
+      const path = getPathFromCache(id);
+      if (isWcReady && path) {
+        await withSyncPaused(() => writeFile(path, content));
+      }
+    }
+    if (isWcReady) deps.terminal.write(`Synced ${changes.length} file(s)\r\n`);
+  };
+
+  // User runner mappings; `DEFAULT_RUNNERS` apply where none matches
+  const getRunners = async (): Promise<RunnerMapping[]> => {
+    const value = await deps.db.getSetting('runners');
+    if (!value) return [];
+    try {
+      return JSON.parse(value) as RunnerMapping[];
+    } catch (err) {
+      console.error('Ignoring unreadable runner mappings:', err);
+      return [];
+    }
+  };
+
+  // Every stored file by project path, with contents loaded in one query
+  const loadProjectSources = async () => {
+    const index = buildPathIndex(_filesCache);
+    const contents = new Map(
+      (await deps.db.searchFileContents(requireProjectId(), null)).map(file => [file.id, file.content ?? ''])
+    );
+    const paths = new Map(_filesCache.filter(f => f.type === 'file').map(f => [index.get(f.id) ?? f.name, f.id]));
+    return { paths, contents, read: async (id: string) => contents.get(id) ?? '' };
+  };
+
+  const registerSourceMap = (outputs: { path: string; content: string }[], path: string) => {
+    const map = outputs.find(file => file.path === `${path}.map`);
+    if (map) _sourceMaps.set(path, createSourceMapLookup(map.content, path));
+  };
+
+  // Bundles a file into the container for a `transpile` runner; returns the output path
+  const transpileForRun = async (webContainer: WebContainer, path: string): Promise<string | null> => {
+    const result = await bundle(
+      await loadProjectSources(),
+      { entryPoint: path, format: 'esm', minify: false, sourcemap: true, target: 'node18' },
+      TRANSPILE_OUTDIR,
+      {
+        platform: 'node',
+        outExtension: { '.js': '.mjs' },
+        // Lets CommonJS-style requires of packages work from the ESM output
+        banner: { js: "import { createRequire } from 'module'; const require = createRequire(import.meta.url);" }
+      }
+    );
+    deps.terminal.write(await formatBuildMessages(result));
+    const output = result.outputs.find(file => file.path.endsWith('.mjs'));
+    if (result.errors.length > 0 || !output) return null;
+
+    // The map is written too, so `--enable-source-maps` works as a node option
+    await withSyncPaused(async () => {
+      await webContainer.fs.mkdir(output.path.slice(0, output.path.lastIndexOf('/')), { recursive: true });
+      for (const file of result.outputs) {
+        await webContainer.fs.writeFile(file.path, file.content);
+      }
+    });
+    registerSourceMap(result.outputs, output.path);
+    return output.path;
+  };
+
+  const getIdFromCache = (path: string): string | null => {
+    for (const [id, cachedPath] of buildPathIndex(_filesCache)) {
+      if (cachedPath === path) return id;
+    }
+    return null;
+  };
+
+  const writeRunError = (message: string) => deps.terminal.write(`\r\n\x1b[1;31m${message}\x1b[0m\r\n`);
+
+  // Checks the configuration's paths against the tree and loads its env file
+  const resolveRunConfiguration = async (config: RunConfiguration): Promise<RunTarget | null> => {
+    const program = getIdFromCache(config.program);
+    if (!program || _filesCache.find(f => f.id === program)?.type !== 'file') {
+      writeRunError(`${config.name}: program ${config.program} not found`);
+      return null;
+    }
+
+    const cwd = config.cwd.replace(/^\/+|\/+$/g, '');
+    if (cwd && _filesCache.find(f => f.id === getIdFromCache(cwd))?.type !== 'folder') {
+      writeRunError(`${config.name}: working directory ${cwd} not found`);
+      return null;
+    }
+
+    let fileEnv: Record<string, string> = {};
+    if (config.envFile) {
+      const envFileId = getIdFromCache(config.envFile);
+      if (!envFileId) {
+        writeRunError(`${config.name}: env file ${config.envFile} not found`);
+        return null;
+      }
+      fileEnv = parseDotenv(await deps.db.getFileContent(requireProjectId(), envFileId));
+    }
+
+    return {
+      path: config.program,
+      args: splitCommandLine(config.args),
+      nodeOptions: config.nodeOptions.trim(),
+      env: { ...fileEnv, ...config.env },
+      cwd
+    };
+  };
+
+  const startRun = async (webContainer: WebContainer, target: RunTarget) => {
+    const runner = resolveRunner(target.path, await getRunners());
+    if (!runner) {
+      writeRunError(`No runner for ${target.path}. Add one with "Run: Configure Runners".`);
+      return null;
+    }
+
+    try {
+      let file = target.path;
+      if (runner.transpile) {
+        const output = await transpileForRun(webContainer, target.path);
+        if (!output) return null;
+        file = output;
+      }
+      // Paths are relative to the workdir, which is no longer the cwd when running from a subfolder
+      if (target.cwd) file = `${webContainer.workdir}/${file}`;
+
+      const { command, args } = buildRunCommand(runner, file);
+      const env = { ...target.env };
+      if (target.nodeOptions && command === 'node') {
+        args.unshift(...splitCommandLine(target.nodeOptions));
+      } else if (target.nodeOptions) {
+        env.NODE_OPTIONS = [env.NODE_OPTIONS, target.nodeOptions].filter(Boolean).join(' ');
+      }
+      args.push(...target.args);
+
+      const origin = runner.transpile ? ` (${target.path} transpiled with esbuild)` : '';
+      const location = target.cwd ? ` in ${target.cwd}/` : '';
+      deps.terminal.write(`\r\n\x1b[1;36m➤ ${[command, ...args].join(' ')}${location}${origin}\x1b[0m\r\n`);
+
+      const { info } = await spawnTracked(webContainer, command, args, deps.terminal.write, undefined, {
+        cwd: target.cwd || undefined,
+        env
+      });
+      return info;
+    } catch (err) {
+      deps.terminal.write(`\x1b[1;31mError: ${err}\x1b[0m\r\n`);
+      return null;
+    }
+  };
+
+  const startWorkerRun = async (target: RunTarget) => {
+    deps.terminal.write(`\r\n\x1b[1;36m➤ Executing ${target.path} in a browser worker...\x1b[0m\r\n`);
+    if (target.nodeOptions) {
+      deps.terminal.write(`\x1b[33mIgnoring node options "${target.nodeOptions}" in the browser worker\x1b[0m\r\n`);
+    }
+
+    try {
+      const sources = await loadProjectSources();
+      const result = await bundle(
+        sources,
+        { entryPoint: target.path, format: 'cjs', minify: false, sourcemap: true, target: 'es2022' },
+        TRANSPILE_OUTDIR,
+        { sourcemap: 'external' }
+      );
+      deps.terminal.write(await formatBuildMessages(result));
+      const output = result.outputs.find(file => file.path.endsWith('.js'));
+      if (result.errors.length > 0 || !output) return null;
+      registerSourceMap(result.outputs, output.path);
+
+      const files = Object.fromEntries(
+        Array.from(sources.paths, ([filePath, id]) => [filePath, sources.contents.get(id) ?? ''])
+      );
+      const cwd = target.cwd ? `${WORKER_CWD}/${target.cwd}` : WORKER_CWD;
+      const run = startWorkerProcess(
+        {
+          // Names the bundle in stack traces so their locations resolve through the source map
+          code: `${output.content}\n//# sourceURL=${WORKER_CWD}/${output.path}`,
+          path: target.path,
+          argv: ['node', `${WORKER_CWD}/${target.path}`, ...target.args],
+          env: { PWD: cwd, ...target.env },
+          root: WORKER_CWD,
+          cwd,
+          files
+        },
+        deps.terminal.write
+      );
+      return trackProcess(`node ${target.path} (worker)`, run, deps.terminal.write).info;
+    } catch (err) {
+      deps.terminal.write(`\x1b[1;31mError: ${err}\x1b[0m\r\n`);
+      return null;
+    }
+  };
+
+  const joinPath = (parentPath: string | null, name: string) => (parentPath ? `${parentPath}/${name}` : name);
+
+  const requireProjectId = (): string => {
+    if (!_projectId) {
+      throw new Error('No project is open');
+    }
+    return _projectId;
+  };
+
   const resolveParentId = (selectedFileId: string | null, explicitParentId?: string | null): string | null => {
     if (explicitParentId !== undefined) {
       return explicitParentId;
@@ -34,26 +419,308 @@ export function createIDEService(deps: IDEDependencies): IDEService {
     return null;
   };
 
+  /**
+   * Creates the unpacked entries under `targetParentId`, creating missing folders along the way
+   * and applying the conflict policy to name clashes. Folders merge instead of clashing.
+   */
+  const importEntries = async (
+    {
+      entries,
+      skippedBinary,
+      skippedUnsafe = []
+    }: { entries: ArchiveEntry[]; skippedBinary: string[]; skippedUnsafe?: string[] },
+    policy: ConflictPolicy,
+    targetParentId: string | null
+  ): Promise<ImportSummary> => {
+    const projectId = requireProjectId();
+    const summary: ImportSummary = {
+      created: 0,
+      overwritten: 0,
+      renamed: 0,
+      skipped: skippedBinary.length + skippedUnsafe.length
+    };
+
+    skippedBinary.forEach(path => deps.terminal.write(`\x1b[33mSkipped binary file ${path}\x1b[0m\r\n`));
+    skippedUnsafe.forEach(path =>
+      deps.terminal.write(`\x1b[33mSkipped ${path}: paths must stay inside the project\x1b[0m\r\n`)
+    );
+
+    // Existing and newly created children, looked up by parent and name
+    const childKey = (parentId: string | null, name: string) => `${parentId ?? ''}/${name}`;
+    const existing = new Map(
+      _filesCache.map(f => [childKey(f.parentId, f.name), { id: f.id, type: f.type }])
+    );
+    // Archive folder path -> record id; `undefined` marks a folder skipped by the policy
+    const folders = new Map<string, string | null | undefined>([['', targetParentId]]);
+
+    const resolveClash = async (parentId: string | null, name: string, type: 'file' | 'folder') => {
+      const clash = existing.get(childKey(parentId, name));
+      if (!clash) return name;
+      if (policy === 'skip') return null;
+      if (policy === 'rename') {
+        summary.renamed++;
+        return makeUniqueName(name, candidate => existing.has(childKey(parentId, candidate)));
+      }
+      // Overwrite: a record of the other kind is replaced entirely
+      if (clash.type !== type) {
+        await deps.db.deleteFile(projectId, clash.id);
+        existing.delete(childKey(parentId, name));
+      }
+      return name;
+    };
+
+    const ensureFolder = async (path: string): Promise<string | null | undefined> => {
+      if (folders.has(path)) return folders.get(path);
+
+      const slash = path.lastIndexOf('/');
+      const parentId = await ensureFolder(slash === -1 ? '' : path.slice(0, slash));
+      let folderId: string | undefined;
+
+      if (parentId !== undefined) {
+        const name = path.slice(slash + 1);
+        const clash = existing.get(childKey(parentId, name));
+
+        if (clash?.type === 'folder') {
+          // Folders merge instead of clashing
+          folderId = clash.id;
+        } else {
+          const finalName = await resolveClash(parentId, name, 'folder');
+          if (finalName !== null) {
+            folderId = await deps.db.createFile(projectId, finalName, parentId, 'folder');
+            existing.set(childKey(parentId, finalName), { id: folderId, type: 'folder' });
+            summary.created++;
+          } else {
+            summary.skipped++;
+          }
+        }
+      }
+
+      folders.set(path, folderId);
+      return folderId;
+    };
+
+    for (const entry of entries) {
+      if (entry.type === 'folder') {
+        await ensureFolder(entry.path);
+        continue;
+      }
+
+      const slash = entry.path.lastIndexOf('/');
+      const parentId = await ensureFolder(slash === -1 ? '' : entry.path.slice(0, slash));
+      if (parentId === undefined) {
+        summary.skipped++;
+        continue;
+      }
+
+      const name = entry.path.slice(slash + 1);
+      const clash = existing.get(childKey(parentId, name));
+      if (clash?.type === 'file' && policy === 'overwrite') {
+        await deps.db.saveFileContent(projectId, clash.id, entry.content);
+        summary.overwritten++;
+        continue;
+      }
+
+      const finalName = await resolveClash(parentId, name, 'file');
+      if (finalName === null) {
+        summary.skipped++;
+        continue;
+      }
+
+      const id = await deps.db.createFile(projectId, finalName, parentId, 'file', entry.content);
+      existing.set(childKey(parentId, finalName), { id, type: 'file' });
+      summary.created++;
+    }
+
+    return summary;
+  };
+
   return {
     async initialize() {
       await deps.db.initDb();
+
+      if (_projectId) return;
+
+      // Projects are ordered by last opened, so this resumes where the user left off
+      const [latest] = await deps.db.getProjects();
+      _projectId = latest ? latest.id : await deps.db.createProject('My Project');
+      await deps.db.touchProject(_projectId);
+    },
+
+    getActiveProjectId() {
+      return _projectId;
+    },
+
+    async listProjects() {
+      return deps.db.getProjects();
+    },
+
+    openProject,
+
+    async createProject(name: string) {
+      return deps.db.createProject(name);
+    },
+
+    async renameProject(id: string, newName: string) {
+      await deps.db.renameProject(id, newName);
+    },
+
+    async duplicateProject(id: string, name: string) {
+      return deps.db.duplicateProject(id, name);
+    },
+
+    async deleteProject(id: string) {
+      await deps.db.deleteProject(id);
+      await deleteSnapshots(id);
+      if (id !== _projectId) return;
+
+      // Never leave the IDE without a project to show
+      const [next] = await deps.db.getProjects();
+      await openProject(next ? next.id : await deps.db.createProject('My Project'));
     },
 
     async loadFiles(isWcReady: boolean, mount: (paths: Record<string, string>) => Promise<void>) {
-      const allFiles = await deps.db.getFilesFromDb();
+      if (!_projectId) return [];
+
+      const allFiles = await deps.db.getFilesFromDb(_projectId);
       _filesCache = allFiles;
 
       const tree = buildTree(allFiles);
 
       if (isWcReady) {
-        await mount(generateFilePaths(allFiles));
+        await withSyncPaused(() => mount(generateFilePaths(allFiles)));
       }
 
       return tree;
     },
 
+    async search(query: SearchQuery) {
+      const matcher = createMatcher(query);
+      const isIncluded = createGlobFilter(query.include);
+      const isExcluded = createGlobFilter(query.exclude);
+
+      const candidates = await deps.db.searchFileContents(requireProjectId(), getIndexPhrase(query));
+      const index = buildPathIndex(_filesCache);
+
+      const results: SearchResult[] = [];
+      let remaining = MAX_SEARCH_MATCHES;
+      for (const { id, content } of candidates) {
+        const path = index.get(id);
+        if (!path || (isIncluded && !isIncluded(path)) || isExcluded?.(path)) continue;
+
+        const matches = findMatches(content ?? '', matcher, remaining);
+        if (matches.length === 0) continue;
+        results.push({ fileId: id, path, matches });
+        remaining -= matches.length;
+        if (remaining === 0) break;
+      }
+
+      results.sort((a, b) => a.path.localeCompare(b.path));
+      return { results, truncated: remaining === 0 };
+    },
+
+    async replaceInFiles(query, replacement, selection, isWcReady, writeFile) {
+      const projectId = requireProjectId();
+      // Replace in what is stored now, not in what the search saw
+      const records = await deps.db.getFilesFromDb(projectId);
+
+      const before: { id: string; content: string }[] = [];
+      const after: { id: string; content: string }[] = [];
+      let replacements = 0;
+      for (const { fileId, keys } of selection) {
+        const record = records.find(r => r.id === fileId && r.type === 'file');
+        if (!record || keys.length === 0) continue;
+
+        const original = record.content ?? '';
+        const result = replaceMatches(original, query, replacement, new Set(keys));
+        if (result.count === 0 || result.content === original) continue;
+
+        before.push({ id: fileId, content: original });
+        after.push({ id: fileId, content: result.content });
+        replacements += result.count;
+      }
+      if (after.length === 0) return { fileIds: [], replacements: 0 };
+
+      await deps.db.saveFileContents(projectId, after);
+      _lastReplace = { projectId, before, after };
+      await applyStoredContents(after, isWcReady, writeFile);
+      return { fileIds: after.map(change => change.id), replacements };
+    },
+
+    canUndoReplace() {
+      return _lastReplace !== null && _lastReplace.projectId === _projectId;
+    },
+
+    async undoReplace(isWcReady, writeFile) {
+      if (!_lastReplace || _lastReplace.projectId !== _projectId) return [];
+
+      const { projectId, before, after } = _lastReplace;
+      // A save, sync or build may have written a file since the replace; that content wins
+      const records = await deps.db.getFilesFromDb(projectId);
+      const unchanged = before.filter(({ id }) => {
+        const current = records.find(record => record.id === id)?.content ?? null;
+        return current === after.find(change => change.id === id)?.content;
+      });
+      before
+        .filter(change => !unchanged.includes(change))
+        .forEach(({ id }) => {
+          const path = getPathFromCache(id) ?? id;
+          deps.terminal.write(`\x1b[33mUndo replace skipped ${path}: changed since the replace\x1b[0m\r\n`);
+        });
+
+      await deps.db.saveFileContents(projectId, unchanged);
+      _lastReplace = null;
+      await applyStoredContents(unchanged, isWcReady, writeFile);
+      return unchanged.map(change => change.id);
+    },
+
+    async restoreDependencies(webContainer: WebContainer) {
+      const rootFile = (name: string) =>
+        _filesCache.find(f => f.parentId === null && f.type === 'file' && f.name === name)?.content ?? null;
+      const manifest = rootFile('package.json');
+      if (!manifest) return false;
+
+      try {
+        const projectId = requireProjectId();
+        const snapshot = await loadSnapshot(projectId, await hashDependencies(manifest, rootFile('package-lock.json')));
+        if (!snapshot || projectId !== _projectId) return false;
+
+        await withSyncPaused(() => webContainer.mount(snapshot, { mountPoint: 'node_modules' }));
+        deps.terminal.write('\x1b[32m✓ Restored node_modules from snapshot\x1b[0m\r\n');
+        return true;
+      } catch (err) {
+        deps.terminal.write(`\x1b[1;33mCould not restore node_modules: ${err}\x1b[0m\r\n`);
+        return false;
+      }
+    },
+
+    async snapshotDependencies(webContainer: WebContainer) {
+      const projectId = requireProjectId();
+      // Read from the container: the lockfile npm just wrote may not have been synced back yet
+      const manifest = await webContainer.fs.readFile('package.json', 'utf-8').catch(() => null);
+      if (!manifest) return;
+      const lockfile = await webContainer.fs.readFile('package-lock.json', 'utf-8').catch(() => null);
+
+      const bytes = await webContainer.export('node_modules', { format: 'binary' });
+      await saveSnapshot(projectId, await hashDependencies(manifest, lockfile), bytes);
+    },
+
     async getFileContent(id: string) {
-      return deps.db.getFileContent(id);
+      return deps.db.getFileContent(requireProjectId(), id);
+    },
+
+    getFilePath(id: string) {
+      return getPathFromCache(id);
+    },
+
+    getProjectFiles() {
+      const index = buildPathIndex(_filesCache);
+      return _filesCache
+        .filter(file => file.type === 'file' && index.has(file.id))
+        .map(file => ({ id: file.id, path: index.get(file.id)!, content: file.content || '' }));
+    },
+
+    async loadTypeDeclarations(webContainer: WebContainer) {
+      return collectTypeDeclarations(webContainer.fs);
     },
 
     async saveFile(
@@ -62,7 +729,7 @@ export function createIDEService(deps: IDEDependencies): IDEService {
       isWcReady: boolean,
       writeFile: (path: string, content: string) => Promise<void>
     ) {
-      await deps.db.saveFileContent(id, content);
+      await deps.db.saveFileContent(requireProjectId(), id, content);
 
       // Update cache content locally to keep it consistent without re-fetching
       const cachedFile = _filesCache.find(f => f.id === id);
@@ -73,7 +740,7 @@ export function createIDEService(deps: IDEDependencies): IDEService {
       if (isWcReady) {
         const path = getPathFromCache(id);
         if (path) {
-          await writeFile(path, content);
+          await withSyncPaused(() => writeFile(path, content));
           deps.terminal.write(`Synced ${path}\r\n`);
         }
       }
@@ -83,53 +750,352 @@ export function createIDEService(deps: IDEDependencies): IDEService {
       name: string,
       type: 'file' | 'folder',
       selectedFileId: string | null,
-      explicitParentId?: string | null
+      explicitParentId?: string | null,
+      webContainer: WebContainer | null = null
     ) {
       const parentId = resolveParentId(selectedFileId, explicitParentId);
-      await deps.db.createFile(name, parentId, type, type === 'file' ? '' : '');
+      await deps.db.createFile(requireProjectId(), name, parentId, type, type === 'file' ? '' : '');
+
+      const path = joinPath(parentId ? getPathFromCache(parentId) : null, name);
+      await mirrorToContainer(webContainer, `create ${path}`, fs =>
+        type === 'folder' ? fs.mkdir(path, { recursive: true }).then(() => undefined) : fs.writeFile(path, '')
+      );
     },
 
-    async deleteNode(id: string) {
-      await deps.db.deleteFile(id);
+    async deleteNode(id: string, webContainer: WebContainer | null = null) {
+      const path = getPathFromCache(id);
+      await deps.db.deleteFile(requireProjectId(), id);
+
+      if (path) {
+        await mirrorToContainer(webContainer, `delete ${path}`, fs => fs.rm(path, { recursive: true, force: true }));
+      }
     },
 
-    async renameNode(id: string, newName: string) {
-      await deps.db.renameFile(id, newName);
+    async renameNode(id: string, newName: string, webContainer: WebContainer | null = null) {
+      const oldPath = getPathFromCache(id);
+      await deps.db.renameFile(requireProjectId(), id, newName);
+
+      if (oldPath) {
+        const slash = oldPath.lastIndexOf('/');
+        const newPath = joinPath(slash === -1 ? null : oldPath.slice(0, slash), newName);
+        await mirrorToContainer(webContainer, `rename ${oldPath}`, fs => fs.rename(oldPath, newPath));
+      }
     },
 
-    async moveNode(id: string, newParentId: string | null) {
-      await deps.db.moveFile(id, newParentId);
+    async moveNode(id: string, newParentId: string | null, webContainer: WebContainer | null = null) {
+      const oldPath = getPathFromCache(id);
+      const parentPath = newParentId ? getPathFromCache(newParentId) : null;
+      await deps.db.moveFile(requireProjectId(), id, newParentId);
+
+      if (oldPath) {
+        const newPath = joinPath(parentPath, oldPath.slice(oldPath.lastIndexOf('/') + 1));
+        await mirrorToContainer(webContainer, `move ${oldPath}`, fs => fs.rename(oldPath, newPath));
+      }
     },
 
     async resetFileSystem() {
-      if (confirm('Reset file system?')) {
-        await deps.db.resetFileSystem();
+      if (confirm('Delete all files in this project?')) {
+        await deps.db.resetFileSystem(requireProjectId());
         window.location.reload();
       }
     },
 
+    async downloadDatabaseBackup() {
+      const bytes = await deps.db.exportDatabase();
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadBytes(bytes, `ide-backup-${stamp}.sqlite3`, 'application/x-sqlite3');
+    },
+
+    async exportProject(fileName: string) {
+      // Read fresh records: the cache may hold content saved by another tab
+      const records = await deps.db.getFilesFromDb(requireProjectId());
+      const index = buildPathIndex(records);
+
+      const entries = records
+        .filter(record => index.has(record.id))
+        .map(record => ({ path: index.get(record.id)!, type: record.type, content: record.content || '' }));
+
+      downloadBytes(createZip(entries), fileName, 'application/zip');
+    },
+
+    async importArchive(data: Uint8Array, policy: ConflictPolicy) {
+      return importEntries(readZip(data), policy, null);
+    },
+
+    async importLocalFiles(source: LocalFileSource, policy: ConflictPolicy, parentId: string | null) {
+      const entries =
+        source.kind === 'drop' ?
+          await readDroppedEntries(source.entries)
+        : await readDirectoryHandle(source.handle);
+      return importEntries(entries, policy, parentId);
+    },
+
+    async getFileRevisions(fileId: string) {
+      return deps.db.getFileRevisions(requireProjectId(), fileId);
+    },
+
+    async getRevisionContent(revisionId: number) {
+      return deps.db.getRevisionContent(requireProjectId(), revisionId);
+    },
+
+    async getHistoryRetention() {
+      const value = Number(await deps.db.getSetting('history.retention'));
+      return value > 0 ? value : deps.db.DEFAULT_HISTORY_RETENTION;
+    },
+
+    async setHistoryRetention(limit: number) {
+      await deps.db.setSetting('history.retention', String(Math.max(1, Math.floor(limit))));
+    },
+
+    async getBuildConfig() {
+      const value = await deps.db.getSetting(`build.${requireProjectId()}`);
+      if (!value) return null;
+      try {
+        return JSON.parse(value) as BuildConfig;
+      } catch (err) {
+        console.error('Ignoring unreadable build config:', err);
+        return null;
+      }
+    },
+
+    async build(config: BuildConfig, webContainer: WebContainer | null = null) {
+      const projectId = requireProjectId();
+      await deps.db.setSetting(`build.${projectId}`, JSON.stringify(config));
+
+      const index = buildPathIndex(_filesCache);
+      const paths = new Map(
+        _filesCache.filter(f => f.type === 'file').map(f => [index.get(f.id) ?? f.name, f.id])
+      );
+
+      deps.terminal.write(`\x1b[36mBuilding ${config.entryPoint} (${config.format})...\x1b[0m\r\n`);
+      const result = await bundle({ paths, read: id => deps.db.getFileContent(projectId, id) }, config);
+      deps.terminal.write(await formatBuildMessages(result));
+
+      if (result.errors.length === 0) {
+        // Outputs of earlier builds, e.g. chunks or a renamed entry, would otherwise linger
+        const previous = _filesCache.find(f => f.parentId === null && f.name === BUILD_OUTDIR);
+        if (previous) {
+          await deps.db.deleteFile(projectId, previous.id);
+          _filesCache = await deps.db.getFilesFromDb(projectId);
+          await mirrorToContainer(webContainer, `delete ${BUILD_OUTDIR}`, fs =>
+            fs.rm(BUILD_OUTDIR, { recursive: true, force: true })
+          );
+        }
+        await importEntries(
+          { entries: result.outputs.map(output => ({ ...output, type: 'file' })), skippedBinary: [] },
+          'overwrite',
+          null
+        );
+        result.outputs.forEach(output => deps.terminal.write(`  ${output.path}\r\n`));
+      }
+
+      const outcome = result.errors.length > 0 ? '\x1b[31mBuild failed' : '\x1b[32mBuild finished';
+      deps.terminal.write(
+        `${outcome}: ${result.errors.length} error(s), ${result.warnings.length} warning(s)\x1b[0m\r\n`
+      );
+      return {
+        outputs: result.outputs.map(output => output.path),
+        errors: result.errors.length,
+        warnings: result.warnings.length
+      };
+    },
+
+    async listRunConfigurations() {
+      return deps.db.getRunConfigurations(requireProjectId());
+    },
+
+    async saveRunConfiguration(config: RunConfiguration) {
+      await deps.db.saveRunConfiguration(requireProjectId(), config);
+    },
+
+    async deleteRunConfiguration(id: string) {
+      const projectId = requireProjectId();
+      await deps.db.deleteRunConfiguration(projectId, id);
+      if ((await deps.db.getSetting(`run.${projectId}`)) === id) {
+        await deps.db.setSetting(`run.${projectId}`, '');
+      }
+    },
+
+    async getActiveRunConfigurationId() {
+      return (await deps.db.getSetting(`run.${requireProjectId()}`)) || null;
+    },
+
+    async setActiveRunConfigurationId(id: string | null) {
+      await deps.db.setSetting(`run.${requireProjectId()}`, id ?? '');
+    },
+
+    getRunners,
+
+    async setRunners(runners: RunnerMapping[]) {
+      await deps.db.setSetting('runners', JSON.stringify(runners));
+    },
+
+    async getKeybindings() {
+      const value = await deps.db.getSetting('keybindings');
+      if (!value) return {};
+      try {
+        return JSON.parse(value) as KeybindingOverrides;
+      } catch (err) {
+        console.error('Ignoring unreadable keybindings:', err);
+        return {};
+      }
+    },
+
+    async setKeybindings(overrides: KeybindingOverrides) {
+      await deps.db.setSetting('keybindings', JSON.stringify(overrides));
+    },
+
+    withSyncPaused,
+
+    startContainerSync(webContainer: WebContainer, options) {
+      _sync?.stop();
+
+      const sync = createContainerSync(
+        webContainer,
+        {
+          getRecords: () => _filesCache,
+          createFile: (name, parentId, type, content) =>
+            deps.db.createFile(requireProjectId(), name, parentId, type, content),
+          saveFileContent: (id, content) => deps.db.saveFileContent(requireProjectId(), id, content),
+          deleteFile: id => deps.db.deleteFile(requireProjectId(), id),
+          isDirty: options.isDirty,
+          onChanges: async (changes: ExternalChanges) => {
+            _filesCache = await deps.db.getFilesFromDb(requireProjectId());
+            options.onChanges(changes);
+          },
+          onError: err => deps.terminal.write(`\x1b[1;31mFile sync failed: ${err}\x1b[0m\r\n`)
+        },
+        options.ignore
+      );
+      _sync = sync;
+
+      return () => {
+        sync.stop();
+        if (_sync === sync) _sync = null;
+      };
+    },
+
     async runFile(fileId: string, isWcReady: boolean, webContainer: WebContainer) {
-      if (!isWcReady || !webContainer) return;
+      if (!isWcReady || !webContainer) return null;
 
       const path = getPathFromCache(fileId);
-      if (!path) return;
+      if (!path) return null;
+      return startRun(webContainer, { path, args: [], nodeOptions: '', env: {}, cwd: '' });
+    },
+
+    async runFileInWorker(fileId: string) {
+      const path = getPathFromCache(fileId);
+      if (!path) return null;
+      return startWorkerRun({ path, args: [], nodeOptions: '', env: {}, cwd: '' });
+    },
+
+    async runConfiguration(config: RunConfiguration, webContainer: WebContainer) {
+      const target = await resolveRunConfiguration(config);
+      return target && startRun(webContainer, target);
+    },
+
+    async runConfigurationInWorker(config: RunConfiguration) {
+      const target = await resolveRunConfiguration(config);
+      return target && startWorkerRun(target);
+    },
 
-      deps.terminal.write(`\r\n\x1b[1;36m➤ Executing ${path}...\x1b[0m\r\n`);
+    resolveFileLocation(path: string, line: number, column: number, workdir: string | null) {
+      let projectPath = path;
+      if (path.startsWith('/')) {
+        const root = [workdir, WORKER_CWD].find(prefix => prefix && path.startsWith(`${prefix}/`));
+        if (!root) return null;
+        projectPath = path.slice(root.length + 1);
+      }
+      projectPath = projectPath.replace(/^(\.\/)+/, '');
+
+      const position = _sourceMaps.get(projectPath)?.(line, column) ?? { path: projectPath, line, column };
+      const fileId = getIdFromCache(position.path);
+      return fileId ? { fileId, line: position.line, column: position.column } : null;
+    },
 
+    async runTask(webContainer: WebContainer, command: string, args: string[], output) {
+      output.write(`\x1b[1;36m➤ ${[command, ...args].join(' ')}\x1b[0m\r\n`);
       try {
-        const process = await webContainer.spawn('node', [path]);
-        process.output.pipeTo(
+        return await spawnTracked(webContainer, command, args, output.write, output.dimensions);
+      } catch (err) {
+        output.write(`\x1b[1;31mError: ${err}\x1b[0m\r\n`);
+        return null;
+      }
+    },
+
+    listProcesses,
+
+    onProcessesChange(listener: (processes: ProcessInfo[]) => void) {
+      _processListeners.add(listener);
+      return () => {
+        _processListeners.delete(listener);
+      };
+    },
+
+    killProcess,
+
+    killAllProcesses() {
+      Array.from(_processes.keys()).forEach(killProcess);
+    },
+
+    async startShell(webContainer: WebContainer, dimensions, options = DEFAULT_SHELL) {
+      const process = await webContainer.spawn(options.command, options.args ?? [], {
+        terminal: dimensions
+      });
+
+      process.output
+        .pipeTo(
           new WritableStream({
             write(data) {
               deps.terminal.write(data);
             }
           })
-        );
-        const exitCode = await process.exit;
-        deps.terminal.write(`\r\n\x1b[1;33mProcess exited with code ${exitCode}\x1b[0m\r\n`);
-      } catch (err) {
-        deps.terminal.write(`\x1b[1;31mError: ${err}\x1b[0m\r\n`);
-      }
+        )
+        .catch((err: unknown) => {
+          deps.terminal.write(`\x1b[1;31mShell output stopped: ${err}\x1b[0m\r\n`);
+        });
+
+      const input = process.input.getWriter();
+      // The input stream closes with the shell, so later keystrokes are dropped
+      let exited = false;
+      process.exit.then(() => {
+        exited = true;
+      });
+
+      return {
+        write: (data: string) => {
+          if (exited) return;
+          input.write(data).catch((err: unknown) => {
+            console.error('Failed to write to the shell:', err);
+          });
+        },
+        resize: size => process.resize(size),
+        kill: () => process.kill(),
+        exit: process.exit
+      };
+    },
+
+    watchServers(webContainer: WebContainer, listener: (servers: ServerInfo[]) => void) {
+      const servers = new Map<number, ServerInfo>();
+      const notify = () => listener(Array.from(servers.values()).sort((a, b) => a.port - b.port));
+
+      const unsubscribers = [
+        webContainer.on('port', (port, type, url) => {
+          if (type === 'open') {
+            servers.set(port, { port, url, ready: servers.get(port)?.ready ?? false });
+          } else {
+            servers.delete(port);
+          }
+          notify();
+        }),
+        webContainer.on('server-ready', (port, url) => {
+          servers.set(port, { port, url, ready: true });
+          deps.terminal.write(`\x1b[32mServer ready on port ${port}: ${url}\x1b[0m\r\n`);
+          notify();
+        })
+      ];
+
+      return () => unsubscribers.forEach(unsubscribe => unsubscribe());
     }
   };
 }
@@ -0,0 +1,83 @@
+import type { ArchiveEntry } from './zipArchive';
+
+// Where the files to import come from: an OS drop or a folder picked through the File System Access API
+export type LocalFileSource =
+  | { kind: 'drop'; entries: FileSystemEntry[] }
+  | { kind: 'directory'; handle: FileSystemDirectoryHandle };
+
+// Installed or VCS data that would bloat the `files` table; the container recreates it
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+interface ReadResult {
+  entries: ArchiveEntry[];
+  skippedBinary: string[];
+}
+
+async function addFile(result: ReadResult, path: string, file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes.includes(0)) {
+    result.skippedBinary.push(path);
+  } else {
+    result.entries.push({ path, type: 'file', content: new TextDecoder().decode(bytes) });
+  }
+}
+
+// `readEntries` returns directory contents in batches until it yields an empty one
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const all: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return all;
+    all.push(...batch);
+  }
+}
+
+/**
+ * Reads files and whole directory trees dropped from the OS. The entries must be taken from
+ * `DataTransferItem.webkitGetAsEntry()` synchronously inside the drop handler.
+ */
+export async function readDroppedEntries(roots: FileSystemEntry[]): Promise<ReadResult> {
+  const result: ReadResult = { entries: [], skippedBinary: [] };
+
+  const walk = async (entry: FileSystemEntry, path: string): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      await addFile(result, path, file);
+    } else if (entry.isDirectory && !IGNORED_DIRECTORIES.has(entry.name)) {
+      result.entries.push({ path, type: 'folder', content: '' });
+      for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+        await walk(child, `${path}/${child.name}`);
+      }
+    }
+  };
+
+  for (const root of roots) {
+    await walk(root, root.name);
+  }
+  return result;
+}
+
+/**
+ * Reads a directory picked with `showDirectoryPicker`, keeping the directory itself as the top folder.
+ */
+export async function readDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<ReadResult> {
+  const result: ReadResult = { entries: [], skippedBinary: [] };
+
+  const walk = async (directory: FileSystemDirectoryHandle, path: string): Promise<void> => {
+    result.entries.push({ path, type: 'folder', content: '' });
+    for await (const child of directory.values()) {
+      const childPath = `${path}/${child.name}`;
+      if (child.kind === 'file') {
+        await addFile(result, childPath, await (child as FileSystemFileHandle).getFile());
+      } else if (!IGNORED_DIRECTORIES.has(child.name)) {
+        await walk(child as FileSystemDirectoryHandle, childPath);
+      }
+    }
+  };
+
+  await walk(handle, handle.name);
+  return result;
+}
@@ -0,0 +1,90 @@
+export interface RunConfiguration {
+  id: string;
+  name: string;
+  // Project path of the file to run, e.g. `src/server.ts`
+  program: string;
+  // Passed after the file; quotes group words as in a shell
+  args: string;
+  // Node flags such as `--inspect` or `--enable-source-maps`
+  nodeOptions: string;
+  env: Record<string, string>;
+  // Project folder the process starts in; empty for the project root
+  cwd: string;
+  // Project path of a dotenv file loaded before `env`, so `env` wins on clashes
+  envFile: string | null;
+}
+
+export const EMPTY_RUN_CONFIGURATION: Omit<RunConfiguration, 'id' | 'name' | 'program'> = {
+  args: '',
+  nodeOptions: '',
+  env: {},
+  cwd: '',
+  envFile: null
+};
+
+// Splits like a shell without expansions: whitespace separates words, quotes and backslashes group them
+export function splitCommandLine(line: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+        word += line[++i];
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < line.length) {
+      word += line[++i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = '';
+      inWord = false;
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(word);
+  return words;
+}
+
+/**
+ * Reads `KEY=value` lines as in a `.env` file. Blank lines, `#` comments and an `export `
+ * prefix are ignored; double-quoted values understand `\n`, single-quoted ones are literal.
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+
+    const [, key, raw] = match;
+    const quoted = /^(["'])(.*)\1$/.exec(raw);
+    if (quoted) {
+      env[key] =
+        quoted[1] === '"' ?
+          quoted[2].replace(/\\([n"\\])/g, (_, char: string) => (char === 'n' ? '\n' : char))
+        : quoted[2];
+    } else {
+      env[key] = raw.replace(/\s+#.*$/, '');
+    }
+  }
+  return env;
+}
+
+// The inverse of `parseDotenv` for editing `env` as text
+export function formatDotenv(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([key, value]) => (/[\s#"'\\]/.test(value) ? `${key}=${JSON.stringify(value)}` : `${key}=${value}`))
+    .join('\n');
+}
@@ -0,0 +1,384 @@
+/**
+ * Fallback runtime for when WebContainers can't boot: evaluates a CommonJS bundle with
+ * Node-like `console`, `process`, `require('fs')` (read-only, over the project snapshot)
+ * and `require('path')`. npm packages and other built-ins are not available.
+ *
+ * `workerRunner.ts` loads this file as source text into a worker without an origin, so it
+ * must not import anything at runtime.
+ */
+import type { WorkerMessage, WorkerRunRequest } from './workerRunner';
+
+const post = (message: WorkerMessage) => postMessage(message);
+const print = (stream: 'stdout' | 'stderr', data: string) => post({ type: 'output', stream, data });
+
+// --- Formatting (a small subset of util.inspect / util.format) ---
+
+function inspect(value: unknown, seen = new Set<unknown>(), nested = false): string {
+  if (typeof value === 'string') return nested ? `'${value}'` : value;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`;
+  if (typeof value !== 'object' || value === null) return String(value);
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (seen.has(value)) return '[Circular]';
+
+  seen.add(value);
+  const inner = (item: unknown) => inspect(item, seen, true);
+  let result: string;
+  if (Array.isArray(value)) {
+    result = value.length === 0 ? '[]' : `[ ${value.map(inner).join(', ')} ]`;
+  } else if (value instanceof Map) {
+    result = `Map(${value.size}) { ${Array.from(value, ([k, v]) => `${inner(k)} => ${inner(v)}`).join(', ')} }`;
+  } else if (value instanceof Set) {
+    result = `Set(${value.size}) { ${Array.from(value, inner).join(', ')} }`;
+  } else if (value instanceof Date) {
+    result = value.toISOString();
+  } else {
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${inner(item)}`);
+    result = entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
+  }
+  seen.delete(value);
+  return result;
+}
+
+function format(...args: unknown[]): string {
+  if (typeof args[0] !== 'string') return args.map(arg => inspect(arg)).join(' ');
+
+  let rest = args.slice(1);
+  const head = args[0].replace(/%([sdifjoO%])/g, (match, specifier: string) => {
+    if (specifier === '%') return '%';
+    if (rest.length === 0) return match;
+    const [arg] = rest;
+    rest = rest.slice(1);
+    if (specifier === 's') return typeof arg === 'string' ? arg : inspect(arg, new Set(), true);
+    if (specifier === 'd' || specifier === 'i') return String(specifier === 'i' ? parseInt(String(arg)) : Number(arg));
+    if (specifier === 'f') return String(parseFloat(String(arg)));
+    if (specifier === 'j') return JSON.stringify(arg);
+    return inspect(arg, new Set(), true);
+  });
+  return [head, ...rest.map(arg => inspect(arg))].join(' ');
+}
+
+// --- path ---
+
+// Set from the run request: project files appear under `root`, relative paths resolve against `cwd`
+let root = '/';
+let cwd = '/';
+
+function normalize(path: string): string {
+  const isAbsolute = path.startsWith('/');
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length > 0 && parts[parts.length - 1] !== '..') parts.pop();
+      else if (!isAbsolute) parts.push(part);
+    } else {
+      parts.push(part);
+    }
+  }
+  return (isAbsolute ? '/' : '') + parts.join('/') || (isAbsolute ? '/' : '.');
+}
+
+const pathModule = {
+  sep: '/',
+  delimiter: ':',
+  normalize,
+  isAbsolute: (path: string) => path.startsWith('/'),
+  join: (...parts: string[]) => normalize(parts.filter(Boolean).join('/')),
+  resolve: (...parts: string[]) =>
+    normalize(parts.reduce((base, part) => (part.startsWith('/') ? part : `${base}/${part}`), cwd)),
+  dirname: (path: string) => {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '.' : index === 0 ? '/' : path.slice(0, index);
+  },
+  basename: (path: string, extension?: string) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    return extension && name.endsWith(extension) ? name.slice(0, -extension.length) : name;
+  },
+  extname: (path: string) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot) : '';
+  },
+  relative: (from: string, to: string) => {
+    const a = pathModule.resolve(from).split('/').filter(Boolean);
+    const b = pathModule.resolve(to).split('/').filter(Boolean);
+    let common = 0;
+    while (common < a.length && common < b.length && a[common] === b[common]) common++;
+    return [...Array(a.length - common).fill('..'), ...b.slice(common)].join('/');
+  }
+};
+
+// --- fs (read-only) ---
+
+function createFs(files: Record<string, string>) {
+  const folders = new Set<string>(['']);
+  Object.keys(files).forEach(path => {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+  });
+
+  const fsError = (code: string, syscall: string, path: string) =>
+    Object.assign(new Error(`${code}: ${syscall} '${path}'`), { code, syscall, path });
+
+  // Project path for an absolute or cwd-relative path, or null outside the project
+  const toProjectPath = (path: string) => {
+    const absolute = pathModule.resolve(String(path));
+    if (absolute === root) return '';
+    return absolute.startsWith(`${root}/`) ? absolute.slice(root.length + 1) : null;
+  };
+
+  const readFileSync = (path: string, options?: string | { encoding?: string | null }) => {
+    const projectPath = toProjectPath(path);
+    const content = projectPath === null ? undefined : files[projectPath];
+    if (content === undefined) {
+      throw fsError(projectPath !== null && folders.has(projectPath) ? 'EISDIR' : 'ENOENT', 'open', path);
+    }
+    const encoding = typeof options === 'string' ? options : options?.encoding;
+    return encoding ? content : new TextEncoder().encode(content);
+  };
+
+  const statSync = (path: string) => {
+    const projectPath = toProjectPath(path);
+    const isFile = projectPath !== null && projectPath in files;
+    const isDirectory = projectPath !== null && folders.has(projectPath);
+    if (!isFile && !isDirectory) throw fsError('ENOENT', 'stat', path);
+    return {
+      size: isFile ? new TextEncoder().encode(files[projectPath!]).length : 0,
+      isFile: () => isFile,
+      isDirectory: () => isDirectory,
+      isSymbolicLink: () => false
+    };
+  };
+
+  const readdirSync = (path: string) => {
+    const projectPath = toProjectPath(path);
+    if (projectPath === null || !folders.has(projectPath)) throw fsError('ENOTDIR', 'scandir', path);
+    const prefix = projectPath === '' ? '' : `${projectPath}/`;
+    const children = new Set<string>();
+    [...Object.keys(files), ...folders].forEach(entry => {
+      if (entry !== projectPath && entry.startsWith(prefix)) children.add(entry.slice(prefix.length).split('/')[0]);
+    });
+    return Array.from(children).sort();
+  };
+
+  const existsSync = (path: string) => {
+    const projectPath = toProjectPath(path);
+    return projectPath !== null && (projectPath in files || folders.has(projectPath));
+  };
+
+  const readOnly = (syscall: string) => (path: string) => {
+    throw fsError('EROFS', syscall, path);
+  };
+
+  const sync = {
+    readFileSync,
+    statSync,
+    lstatSync: statSync,
+    readdirSync,
+    existsSync,
+    accessSync: (path: string) => void statSync(path),
+    writeFileSync: readOnly('open'),
+    appendFileSync: readOnly('open'),
+    mkdirSync: readOnly('mkdir'),
+    rmSync: readOnly('rm'),
+    unlinkSync: readOnly('unlink'),
+    renameSync: readOnly('rename')
+  };
+
+  const promises = {
+    readFile: async (path: string, options?: string | { encoding?: string | null }) => readFileSync(path, options),
+    stat: async (path: string) => statSync(path),
+    lstat: async (path: string) => statSync(path),
+    readdir: async (path: string) => readdirSync(path),
+    access: async (path: string) => void statSync(path),
+    writeFile: async (path: string) => sync.writeFileSync(path),
+    appendFile: async (path: string) => sync.appendFileSync(path),
+    mkdir: async (path: string) => sync.mkdirSync(path),
+    rm: async (path: string) => sync.rmSync(path),
+    unlink: async (path: string) => sync.unlinkSync(path),
+    rename: async (path: string) => sync.renameSync(path)
+  };
+
+  // Callback style, e.g. `fs.readFile(path, 'utf8', (err, data) => ...)`
+  const callbacks = Object.fromEntries(
+    Object.entries(promises).map(([name, fn]) => [
+      name,
+      (...args: unknown[]) => {
+        const callback = args.pop() as (err: unknown, result?: unknown) => void;
+        (fn as (...params: unknown[]) => Promise<unknown>)(...args).then(
+          result => callback(null, result),
+          err => callback(err)
+        );
+      }
+    ])
+  );
+
+  return { ...callbacks, ...sync, promises };
+}
+
+// --- Event loop tracking: the run exits once no timers or fetches are pending ---
+
+let pending = 0;
+let exited = false;
+const nativeSetTimeout = globalThis.setTimeout;
+const nativeClearTimeout = globalThis.clearTimeout;
+const nativeSetInterval = globalThis.setInterval;
+const nativeClearInterval = globalThis.clearInterval;
+const nativeFetch = globalThis.fetch;
+const timers = new Set<unknown>();
+
+const exit = (code: number) => {
+  if (exited) return;
+  exited = true;
+  post({ type: 'exit', code });
+};
+
+const scheduleIdleCheck = () =>
+  nativeSetTimeout(() => {
+    if (pending === 0) exit(runtimeProcess.exitCode ?? 0);
+  });
+
+const untrackTimer = (handle: unknown) => {
+  if (timers.delete(handle)) pending--;
+};
+
+function installEventLoopTracking() {
+  globalThis.setTimeout = ((callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const handle = nativeSetTimeout(() => {
+      untrackTimer(handle);
+      callback(...args);
+      scheduleIdleCheck();
+    }, delay);
+    timers.add(handle);
+    pending++;
+    return handle;
+  }) as typeof setTimeout;
+  globalThis.clearTimeout = (handle => {
+    untrackTimer(handle);
+    nativeClearTimeout(handle);
+  }) as typeof clearTimeout;
+  globalThis.setInterval = ((callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const handle = nativeSetInterval(() => callback(...args), delay);
+    timers.add(handle);
+    pending++;
+    return handle;
+  }) as typeof setInterval;
+  globalThis.clearInterval = (handle => {
+    untrackTimer(handle);
+    nativeClearInterval(handle);
+    scheduleIdleCheck();
+  }) as typeof clearInterval;
+  globalThis.fetch = async (...args: Parameters<typeof fetch>) => {
+    pending++;
+    try {
+      return await nativeFetch(...args);
+    } finally {
+      pending--;
+      scheduleIdleCheck();
+    }
+  };
+}
+
+// --- process and console ---
+
+// Thrown by `process.exit` to stop the running code; never reported as an error
+class ProcessExit extends Error {}
+
+const runtimeProcess = {
+  argv: [] as string[],
+  env: {} as Record<string, string>,
+  exitCode: undefined as number | undefined,
+  platform: 'browser',
+  version: 'v20.0.0',
+  versions: {},
+  cwd: () => cwd,
+  exit: (code?: number) => {
+    exit(code ?? runtimeProcess.exitCode ?? 0);
+    // Unwinds the caller like Node's process.exit
+    throw new ProcessExit();
+  },
+  nextTick: (callback: (...args: unknown[]) => void, ...args: unknown[]) => queueMicrotask(() => callback(...args)),
+  hrtime: Object.assign(
+    (previous?: [number, number]) => {
+      const elapsed = Math.floor(performance.now() * 1e6) - (previous ? previous[0] * 1e9 + previous[1] : 0);
+      return [Math.floor(elapsed / 1e9), elapsed % 1e9];
+    },
+    { bigint: () => BigInt(Math.floor(performance.now() * 1e6)) }
+  ),
+  on: () => runtimeProcess,
+  stdout: { write: (data: string) => (print('stdout', String(data)), true), isTTY: false },
+  stderr: { write: (data: string) => (print('stderr', String(data)), true), isTTY: false }
+};
+
+const runtimeConsole = {
+  log: (...args: unknown[]) => print('stdout', `${format(...args)}\n`),
+  info: (...args: unknown[]) => print('stdout', `${format(...args)}\n`),
+  debug: (...args: unknown[]) => print('stdout', `${format(...args)}\n`),
+  warn: (...args: unknown[]) => print('stderr', `${format(...args)}\n`),
+  error: (...args: unknown[]) => print('stderr', `${format(...args)}\n`),
+  trace: (...args: unknown[]) => print('stderr', `Trace: ${format(...args)}\n${new Error().stack ?? ''}\n`),
+  dir: (value: unknown) => print('stdout', `${inspect(value)}\n`),
+  table: (value: unknown) => print('stdout', `${inspect(value)}\n`)
+};
+
+const reportUncaught = (error: unknown) => {
+  if (error instanceof ProcessExit) return;
+  print('stderr', `Uncaught ${inspect(error)}\n`);
+  exit(1);
+};
+
+self.addEventListener('error', event => {
+  event.preventDefault();
+  reportUncaught(event.error ?? event.message);
+});
+self.addEventListener('unhandledrejection', event => {
+  event.preventDefault();
+  reportUncaught(event.reason);
+});
+
+self.onmessage = (e: MessageEvent<WorkerRunRequest>) => {
+  const { code, path, argv, env, files } = e.data;
+  root = e.data.root;
+  cwd = e.data.cwd;
+  runtimeProcess.argv = argv;
+  runtimeProcess.env = env;
+
+  const fs = createFs(files);
+  const builtins: Record<string, unknown> = {
+    fs,
+    'fs/promises': fs.promises,
+    path: pathModule,
+    process: runtimeProcess,
+    util: { format, inspect: (value: unknown) => inspect(value, new Set(), true) }
+  };
+  const require = (name: string) => {
+    const builtin = builtins[name.replace(/^node:/, '')];
+    if (builtin === undefined) {
+      throw new Error(`Cannot find module '${name}' (npm packages and this built-in need the WebContainer runtime)`);
+    }
+    return builtin;
+  };
+
+  installEventLoopTracking();
+  const module = { exports: {} };
+  const filename = `${root}/${path}`;
+  try {
+    // Indirect eval rather than `new Function`, whose header would shift the bundle's line numbers
+    const wrapper = (0, eval)(
+      `(function (require, module, exports, process, console, __filename, __dirname) {${code}\n})`
+    ) as (...args: unknown[]) => void;
+    wrapper(
+      require,
+      module,
+      module.exports,
+      runtimeProcess,
+      runtimeConsole,
+      filename,
+      pathModule.dirname(filename)
+    );
+  } catch (err) {
+    reportUncaught(err);
+  }
+  scheduleIdleCheck();
+};
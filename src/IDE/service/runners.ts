@@ -0,0 +1,44 @@
+export interface RunnerMapping {
+  // File extension including the dot, e.g. `.sh`
+  extension: string;
+  // Command line run in the container; `{file}` is replaced by the file's path, or appended when absent
+  command: string;
+  // Bundle the file with esbuild-wasm first and run the output instead of the source
+  transpile?: boolean;
+}
+
+export const DEFAULT_RUNNERS: RunnerMapping[] = [
+  { extension: '.js', command: 'node {file}' },
+  { extension: '.mjs', command: 'node {file}' },
+  { extension: '.cjs', command: 'node {file}' },
+  { extension: '.jsx', command: 'node {file}', transpile: true },
+  { extension: '.ts', command: 'node {file}', transpile: true },
+  { extension: '.mts', command: 'node {file}', transpile: true },
+  { extension: '.cts', command: 'node {file}', transpile: true },
+  { extension: '.tsx', command: 'node {file}', transpile: true }
+];
+
+// Transpiled output lives under node_modules, which the container sync ignores and from
+// where bare imports still resolve against the project's packages
+export const TRANSPILE_OUTDIR = 'node_modules/.cache/web-ide/run';
+
+/**
+ * Picks the runner for a path. User mappings win over the defaults, and a longer extension
+ * wins over a shorter one (`.test.ts` over `.ts`).
+ */
+export function resolveRunner(path: string, custom: RunnerMapping[]): RunnerMapping | null {
+  const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+  const matches = (runners: RunnerMapping[]) =>
+    runners
+      .filter(runner => name.endsWith(runner.extension.toLowerCase()))
+      .sort((a, b) => b.extension.length - a.extension.length)[0];
+  return matches(custom) ?? matches(DEFAULT_RUNNERS) ?? null;
+}
+
+// Splits the command line on whitespace and fills in `{file}`
+export function buildRunCommand(runner: RunnerMapping, file: string): { command: string; args: string[] } {
+  const parts = runner.command.trim().split(/\s+/);
+  const args = parts.slice(1).map(part => part.replaceAll('{file}', file));
+  if (!runner.command.includes('{file}')) args.push(file);
+  return { command: parts[0], args };
+}
@@ -0,0 +1,191 @@
+export interface SearchQuery {
+  text: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  // Comma separated globs matched against project paths, e.g. `src/**, *.ts`
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  // 1-based, as Monaco expects
+  line: number;
+  column: number;
+  length: number;
+  // The matched line trimmed around the match, which starts at `previewOffset`
+  preview: string;
+  previewOffset: number;
+  // Capture groups of the match on its full line, for expanding `$1` and `$<name>` in replacements
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
+
+export interface SearchResult {
+  fileId: string;
+  path: string;
+  matches: SearchMatch[];
+}
+
+// Matches chosen for replacement in one file, by `matchKey`
+export interface ReplaceSelection {
+  fileId: string;
+  keys: string[];
+}
+
+// Keeps the panel responsive on queries like `e`
+export const MAX_SEARCH_MATCHES = 2000;
+const PREVIEW_CONTEXT = 40;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the line matcher for a query. Throws a `SyntaxError` for an invalid regex.
+ */
+export function createMatcher(query: SearchQuery): RegExp {
+  let source = query.regex ? query.text : escapeRegExp(query.text);
+  if (query.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, query.caseSensitive ? 'g' : 'gi');
+}
+
+// Literal the full-text index can narrow down by; regexes and very short queries scan every file
+export function getIndexPhrase(query: SearchQuery): string | null {
+  return !query.regex && query.text.length >= 3 ? query.text : null;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of folders, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Turns a comma separated glob list into a path predicate. Patterns without a slash match
+ * a file or folder name anywhere in the tree (`*.test.ts`, `node_modules`).
+ */
+export function createGlobFilter(patterns: string): ((path: string) => boolean) | null {
+  const regexes = patterns
+    .split(',')
+    .map(pattern => pattern.trim().replace(/^\.?\//, ''))
+    .filter(Boolean)
+    .map(pattern => globToRegExp(pattern.includes('/') ? pattern : `**/${pattern}`));
+  if (regexes.length === 0) return null;
+
+  return path => {
+    const segments = path.split('/');
+    // A folder pattern also covers everything below it
+    const prefixes = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+    return regexes.some(regex => prefixes.some(prefix => regex.test(prefix)));
+  };
+}
+
+export function findMatches(content: string, matcher: RegExp, limit: number): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split('\n');
+
+  for (let index = 0; index < lines.length && matches.length < limit; index++) {
+    const line = lines[index];
+    matcher.lastIndex = 0;
+    for (const match of line.matchAll(matcher)) {
+      // Empty matches (e.g. `^`) would repeat forever in the UI without adding anything
+      if (match[0].length === 0) continue;
+
+      const start = Math.max(0, match.index - PREVIEW_CONTEXT);
+      const ellipsis = start > 0 ? '…' : '';
+      matches.push({
+        line: index + 1,
+        column: match.index + 1,
+        length: match[0].length,
+        preview: ellipsis + line.slice(start, match.index + match[0].length + PREVIEW_CONTEXT).trimEnd(),
+        previewOffset: ellipsis.length + match.index - start,
+        captures: match.slice(1),
+        groups: match.groups
+      });
+      if (matches.length >= limit) break;
+    }
+  }
+
+  return matches;
+}
+
+// Identifies a match within its file for include/exclude selections
+export const matchKey = (match: Pick<SearchMatch, 'line' | 'column'>) => `${match.line}:${match.column}`;
+
+// A match as found on its full line, so lookarounds, anchors and `\b` keep their context
+export interface MatchGroups {
+  text: string;
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
+
+/**
+ * Text that replaces a match. Regex queries expand `$$`, `$&`, `$1`-`$99` and `$<name>` from
+ * the match's groups as `String.prototype.replace` would; plain queries insert the replacement
+ * literally.
+ */
+export function getReplacement(query: SearchQuery, match: MatchGroups, replacement: string): string {
+  if (!query.regex) return replacement;
+
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return match.text;
+    if (name !== undefined) return match.groups ? (match.groups[name] ?? '') : token;
+
+    // `$12` is group 12 when it exists, otherwise group 1 followed by a literal `2`
+    const twoDigits = Number(symbol);
+    if (symbol.length === 2 && twoDigits >= 1 && twoDigits <= match.captures.length) {
+      return match.captures[twoDigits - 1] ?? '';
+    }
+    const oneDigit = Number(symbol[0]);
+    if (oneDigit >= 1 && oneDigit <= match.captures.length) {
+      return (match.captures[oneDigit - 1] ?? '') + symbol.slice(1);
+    }
+    return token;
+  });
+}
+
+/**
+ * Replaces the matches of `query` whose `matchKey` is in `keys`. Matches are found again on
+ * `content`, so ones that no longer exist are skipped rather than replaced at a stale position.
+ */
+export function replaceMatches(
+  content: string,
+  query: SearchQuery,
+  replacement: string,
+  keys: Set<string>
+): { content: string; count: number } {
+  const matcher = createMatcher(query);
+  let count = 0;
+
+  const lines = content.split('\n').map((line, index) => {
+    let result = '';
+    let last = 0;
+    matcher.lastIndex = 0;
+    for (const match of line.matchAll(matcher)) {
+      if (match[0].length === 0 || !keys.has(matchKey({ line: index + 1, column: match.index + 1 }))) continue;
+      result += line.slice(last, match.index) + getReplacement(
+          query,
+          { text: match[0], captures: match.slice(1), groups: match.groups },
+          replacement
+        );
+      last = match.index + match[0].length;
+      count++;
+    }
+    return result + line.slice(last);
+  });
+
+  return { content: lines.join('\n'), count };
+}
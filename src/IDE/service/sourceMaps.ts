@@ -0,0 +1,97 @@
+// A position in a project file; line and column are 1-based like in stack traces
+export interface SourcePosition {
+  path: string;
+  line: number;
+  column: number;
+}
+
+// [generated column, source index, source line, source column], all 0-based
+type Segment = [number, number, number, number];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+// Source fields are deltas across the whole map, the generated column only within its line
+function decodeMappings(mappings: string): Segment[][] {
+  let source = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  return mappings.split(';').map(line => {
+    let column = 0;
+    const segments: Segment[] = [];
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const [columnDelta, sourceDelta, lineDelta, sourceColumnDelta] = decodeVlq(encoded);
+      column += columnDelta;
+      // One-field segments map generated code to no source
+      if (sourceDelta === undefined) continue;
+      source += sourceDelta;
+      sourceLine += lineDelta;
+      sourceColumn += sourceColumnDelta;
+      segments.push([column, source, sourceLine, sourceColumn]);
+    }
+    return segments;
+  });
+}
+
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+/**
+ * Maps positions in a generated file back to the project files it was built from.
+ * `generatedPath` is the project path of the output, which relative `sources` resolve against.
+ */
+export function createSourceMapLookup(
+  map: string,
+  generatedPath: string
+): (line: number, column: number) => SourcePosition | null {
+  const { sources, sourceRoot = '', mappings } = JSON.parse(map) as {
+    sources: string[];
+    sourceRoot?: string;
+    mappings: string;
+  };
+  const directory = generatedPath.slice(0, generatedPath.lastIndexOf('/'));
+  const paths = sources.map(source => {
+    const path = sourceRoot ? `${sourceRoot}/${source}` : source;
+    return normalizePath(path.startsWith('/') ? path : `${directory}/${path}`);
+  });
+  const lines = decodeMappings(mappings);
+
+  return (line, column) => {
+    const segments = lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // The last segment starting at or before the column, else the line's first
+    let segment = segments[0];
+    for (const candidate of segments) {
+      if (candidate[0] > column - 1) break;
+      segment = candidate;
+    }
+    const path = paths[segment[1]];
+    return path === undefined ? null : { path, line: segment[2] + 1, column: segment[3] + 1 };
+  };
+}
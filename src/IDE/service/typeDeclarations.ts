@@ -0,0 +1,67 @@
+import type { WebContainer } from '@webcontainer/api';
+
+export interface TypeDeclaration {
+  path: string;
+  content: string;
+}
+
+// Upper bound so a huge dependency tree can't stall the editor
+const MAX_DECLARATION_FILES = 3000;
+
+const isDeclarationFile = (name: string) =>
+  name.endsWith('.d.ts') || name.endsWith('.d.mts') || name.endsWith('.d.cts');
+
+/**
+ * Collects `.d.ts` files and `package.json` manifests of the packages installed in the
+ * container's `node_modules`, so Monaco can resolve imports the same way `tsc` would.
+ */
+export async function collectTypeDeclarations(
+  fs: WebContainer['fs'],
+  root = 'node_modules'
+): Promise<TypeDeclaration[]> {
+  const declarations: TypeDeclaration[] = [];
+
+  const walk = async (dir: string, isPackageRoot: boolean): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (declarations.length >= MAX_DECLARATION_FILES) return;
+
+      const path = `${dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        // Nested node_modules are resolved through their own package roots, skip them
+        if (entry.name === 'node_modules') continue;
+        await walk(path, false);
+      } else if (isDeclarationFile(entry.name) || (isPackageRoot && entry.name === 'package.json')) {
+        declarations.push({ path, content: await fs.readFile(path, 'utf-8') });
+      }
+    }
+  };
+
+  let packages: string[];
+  try {
+    packages = await fs.readdir(root);
+  } catch {
+    return declarations;
+  }
+
+  for (const name of packages) {
+    if (name.startsWith('.')) continue;
+
+    if (name.startsWith('@')) {
+      const scoped = await fs.readdir(`${root}/${name}`).catch(() => [] as string[]);
+      for (const pkg of scoped) {
+        await walk(`${root}/${name}/${pkg}`, true);
+      }
+    } else {
+      await walk(`${root}/${name}`, true);
+    }
+  }
+
+  return declarations;
+}
@@ -1,8 +1,18 @@
 import type { WebContainer } from '@webcontainer/api';
 import type { FileNode } from '../FileTree';
+import type { TerminalDimensions } from '../TerminalComponent';
+import type { TypeDeclaration } from './typeDeclarations';
+import type { ConflictPolicy } from './zipArchive';
+import type { LocalFileSource } from './localFiles';
+import type { ExternalChanges } from './containerSync';
+import type { ReplaceSelection, SearchQuery, SearchResult } from './search';
+import type { BuildConfig, BuildSummary } from './bundler';
+import type { RunnerMapping } from './runners';
+import type { RunConfiguration } from './runConfigurations';
 
 export interface FileRecord {
   id: string;
+  projectId: string;
   name: string;
   parentId: string | null;
   type: 'file' | 'folder';
@@ -10,13 +20,99 @@ export interface FileRecord {
   updated_at: string;
 }
 
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  created_at: string;
+  last_opened_at: string;
+}
+
+export interface FileRevision {
+  id: number;
+  fileId: string;
+  size: number;
+  created_at: string;
+}
+
+export interface ImportSummary {
+  created: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+}
+
+export interface ShellOptions {
+  command: string;
+  args?: string[];
+}
+
+export interface ShellSession {
+  write(data: string): void;
+  resize(dimensions: TerminalDimensions): void;
+  kill(): void;
+  exit: Promise<number>;
+}
+
+// A tracked process whose output goes to its own terminal tab
+export interface TaskSession {
+  info: ProcessInfo;
+  exit: Promise<number>;
+}
+
+export interface ProjectFile {
+  id: string;
+  path: string;
+  content: string;
+}
+
+// A position in a stored file; line and column are 1-based
+export interface FileLocation {
+  fileId: string;
+  line: number;
+  column: number;
+}
+
+export interface ProcessInfo {
+  id: string;
+  command: string;
+  startedAt: number;
+}
+
+// A port opened by a process inside the container; `ready` once it answers requests
+export interface ServerInfo {
+  port: number;
+  url: string;
+  ready: boolean;
+}
+
+// A user binding replacing a command's default; `keybinding: null` unbinds it
+export interface KeybindingRule {
+  keybinding: string | null;
+  when?: string;
+}
+
+// By command id
+export type KeybindingOverrides = Record<string, KeybindingRule>;
+
 export interface IDEService {
   // Lifecycle
   initialize(): Promise<void>;
 
+  // Projects
+  getActiveProjectId(): string | null;
+  listProjects(): Promise<ProjectRecord[]>;
+  openProject(id: string): Promise<void>;
+  createProject(name: string): Promise<string>;
+  renameProject(id: string, newName: string): Promise<void>;
+  duplicateProject(id: string, name: string): Promise<string>;
+  deleteProject(id: string): Promise<void>;
+
   // File Operations
   loadFiles(isWcReady: boolean, mount: (paths: Record<string, string>) => Promise<void>): Promise<FileNode[]>;
   getFileContent(id: string): Promise<string>;
+  getFilePath(id: string): string | null;
+  getProjectFiles(): ProjectFile[];
+  loadTypeDeclarations(webContainer: WebContainer): Promise<TypeDeclaration[]>;
 
   saveFile(
     id: string,
@@ -29,34 +125,140 @@ export interface IDEService {
     name: string,
     type: 'file' | 'folder',
     selectedFileId: string | null,
-    explicitParentId?: string | null
+    explicitParentId?: string | null,
+    webContainer?: WebContainer | null
   ): Promise<void>;
 
-  deleteNode(id: string): Promise<void>;
-  renameNode(id: string, newName: string): Promise<void>;
-  moveNode(id: string, newParentId: string | null): Promise<void>;
+  // With a container the change is mirrored into its fs; failures there throw `ContainerMirrorError`
+  deleteNode(id: string, webContainer?: WebContainer | null): Promise<void>;
+  renameNode(id: string, newName: string, webContainer?: WebContainer | null): Promise<void>;
+  moveNode(id: string, newParentId: string | null, webContainer?: WebContainer | null): Promise<void>;
   resetFileSystem(): Promise<void>;
+  downloadDatabaseBackup(): Promise<void>;
+  exportProject(fileName: string): Promise<void>;
+  // Unpacks into the project root; call `loadFiles` afterwards to refresh and remount
+  importArchive(data: Uint8Array, policy: ConflictPolicy): Promise<ImportSummary>;
+  importLocalFiles(source: LocalFileSource, policy: ConflictPolicy, parentId: string | null): Promise<ImportSummary>;
+
+  // History
+  getFileRevisions(fileId: string): Promise<FileRevision[]>;
+  getRevisionContent(revisionId: number): Promise<string>;
+  getHistoryRetention(): Promise<number>;
+  setHistoryRetention(limit: number): Promise<void>;
+
+  // Build
+  getBuildConfig(): Promise<BuildConfig | null>;
+  // Bundles from the stored contents and, without errors, replaces everything under `dist/`
+  // with the output; call `loadFiles` afterwards to refresh and remount
+  build(config: BuildConfig, webContainer?: WebContainer | null): Promise<BuildSummary>;
+
+  // Run configurations of the active project; `null` stands for "Run current file"
+  listRunConfigurations(): Promise<RunConfiguration[]>;
+  saveRunConfiguration(config: RunConfiguration): Promise<void>;
+  deleteRunConfiguration(id: string): Promise<void>;
+  getActiveRunConfigurationId(): Promise<string | null>;
+  setActiveRunConfigurationId(id: string | null): Promise<void>;
+
+  // Settings
+  // User runner mappings by extension; `DEFAULT_RUNNERS` cover JavaScript and TypeScript
+  getRunners(): Promise<RunnerMapping[]>;
+  setRunners(runners: RunnerMapping[]): Promise<void>;
+  getKeybindings(): Promise<KeybindingOverrides>;
+  setKeybindings(overrides: KeybindingOverrides): Promise<void>;
+
+  // Saved contents only; throws a `SyntaxError` for an invalid regex
+  search(query: SearchQuery): Promise<{ results: SearchResult[]; truncated: boolean }>;
+
+  // Writes all changed files in one transaction and remembers the old contents for `undoReplace`
+  replaceInFiles(
+    query: SearchQuery,
+    replacement: string,
+    selection: ReplaceSelection[],
+    isWcReady: boolean,
+    writeFile: (path: string, content: string) => Promise<void>
+  ): Promise<{ fileIds: string[]; replacements: number }>;
+  canUndoReplace(): boolean;
+  // Returns the ids of the restored files; files written since the replace keep their content
+  undoReplace(isWcReady: boolean, writeFile: (path: string, content: string) => Promise<void>): Promise<string[]>;
+
+  // node_modules snapshots (OPFS), keyed by package.json plus the lockfile
+  restoreDependencies(webContainer: WebContainer): Promise<boolean>;
+  snapshotDependencies(webContainer: WebContainer): Promise<void>;
+
+  // Container -> DB sync
+  startContainerSync(
+    webContainer: WebContainer,
+    options: {
+      ignore?: string[];
+      isDirty: (id: string) => boolean;
+      onChanges: (changes: ExternalChanges) => void;
+    }
+  ): () => void;
+  withSyncPaused<T>(fn: () => Promise<T>): Promise<T>;
 
   // Execution
-  runFile(fileId: string, isWcReady: boolean, webContainer: WebContainer): Promise<void>;
+  runFile(fileId: string, isWcReady: boolean, webContainer: WebContainer): Promise<ProcessInfo | null>;
+  // Fallback without a container: bundles the file with its project imports and runs it in a Web Worker
+  runFileInWorker(fileId: string): Promise<ProcessInfo | null>;
+  runConfiguration(config: RunConfiguration, webContainer: WebContainer): Promise<ProcessInfo | null>;
+  // Node options do not apply in the worker
+  runConfigurationInWorker(config: RunConfiguration): Promise<ProcessInfo | null>;
+  // Maps a `path:line:column` from process output to a project file: container and worker paths,
+  // project-relative paths, and transpiled run outputs (through their source maps)
+  resolveFileLocation(path: string, line: number, column: number, workdir: string | null): FileLocation | null;
+  runTask(
+    webContainer: WebContainer,
+    command: string,
+    args: string[],
+    output: { write: (data: string) => void; dimensions?: TerminalDimensions }
+  ): Promise<TaskSession | null>;
+  listProcesses(): ProcessInfo[];
+  onProcessesChange(listener: (processes: ProcessInfo[]) => void): () => void;
+  killProcess(id: string): void;
+  killAllProcesses(): void;
+  startShell(
+    webContainer: WebContainer,
+    dimensions: TerminalDimensions,
+    options?: ShellOptions
+  ): Promise<ShellSession>;
+  // Reports every change to the open ports until the returned function is called
+  watchServers(webContainer: WebContainer, listener: (servers: ServerInfo[]) => void): () => void;
 }
 
 export interface IDEDependencies {
   db: {
-    getFilesFromDb: () => Promise<FileRecord[]>;
-    getFileContent: (id: string) => Promise<string>;
-    saveFileContent: (id: string, content: string) => Promise<void>;
+    getProjects: () => Promise<ProjectRecord[]>;
+    createProject: (name: string) => Promise<string>;
+    renameProject: (id: string, newName: string) => Promise<void>;
+    duplicateProject: (id: string, name: string) => Promise<string>;
+    deleteProject: (id: string) => Promise<void>;
+    touchProject: (id: string) => Promise<void>;
+    getFilesFromDb: (projectId: string) => Promise<FileRecord[]>;
+    getFileContent: (projectId: string, id: string) => Promise<string>;
+    saveFileContent: (projectId: string, id: string, content: string) => Promise<void>;
+    saveFileContents: (projectId: string, changes: { id: string; content: string }[]) => Promise<void>;
     createFile: (
+      projectId: string,
       name: string,
       parentId: string | null,
       type: 'file' | 'folder',
       content?: string
     ) => Promise<string>;
-    renameFile: (id: string, newName: string) => Promise<void>;
-    moveFile: (id: string, newParentId: string | null) => Promise<void>;
-    deleteFile: (id: string) => Promise<void>;
-    resetFileSystem: () => Promise<void>;
+    renameFile: (projectId: string, id: string, newName: string) => Promise<void>;
+    moveFile: (projectId: string, id: string, newParentId: string | null) => Promise<void>;
+    deleteFile: (projectId: string, id: string) => Promise<void>;
+    resetFileSystem: (projectId: string) => Promise<void>;
+    getFileRevisions: (projectId: string, fileId: string) => Promise<FileRevision[]>;
+    getRevisionContent: (projectId: string, revisionId: number) => Promise<string>;
+    searchFileContents: (projectId: string, phrase: string | null) => Promise<Pick<FileRecord, 'id' | 'content'>[]>;
+    getRunConfigurations: (projectId: string) => Promise<RunConfiguration[]>;
+    saveRunConfiguration: (projectId: string, config: RunConfiguration) => Promise<void>;
+    deleteRunConfiguration: (projectId: string, id: string) => Promise<void>;
+    getSetting: (key: string) => Promise<string | null>;
+    setSetting: (key: string, value: string) => Promise<void>;
+    DEFAULT_HISTORY_RETENTION: number;
     initDb: () => Promise<unknown>;
+    exportDatabase: () => Promise<Uint8Array>;
   };
   terminal: { write: (data: string) => void };
 }
@@ -0,0 +1,113 @@
+import runnerSource from './runnerWorker.ts?raw';
+import { transpileScript } from './bundler';
+
+// Where the project appears to code running in the worker, like the container's workdir
+export const WORKER_CWD = '/home/project';
+
+export interface WorkerRunRequest {
+  // CommonJS bundle of the entry file and its project imports
+  code: string;
+  // Project path of the entry file
+  path: string;
+  argv: string[];
+  env: Record<string, string>;
+  // Absolute path the project files appear under, `WORKER_CWD`
+  root: string;
+  // Absolute, under `root`
+  cwd: string;
+  // Read-only snapshot for `fs`, by project path
+  files: Record<string, string>;
+}
+
+export type WorkerMessage =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+  | { type: 'exit'; code: number };
+
+// Exit code reported for a run stopped from the IDE, as for SIGTERM
+const KILLED_EXIT_CODE = 143;
+
+// Sent by the sandbox page when the worker script itself fails, e.g. to parse
+type SandboxMessage = WorkerMessage | { type: 'error'; message: string };
+
+// Starts the runtime from a blob, which the page's opaque origin may do, and relays messages
+const SANDBOX_PAGE = `<!doctype html><script>
+onmessage = e => {
+  if (e.source !== parent) return;
+  const url = URL.createObjectURL(new Blob([e.data.source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = message => parent.postMessage(message.data, '*');
+  worker.onerror = event => {
+    event.preventDefault();
+    parent.postMessage({ type: 'error', message: event.message }, '*');
+  };
+  worker.postMessage(e.data.request);
+};
+</script>`;
+
+let _runtime: Promise<string> | null = null;
+
+const loadRuntime = () => {
+  if (!_runtime) {
+    _runtime = transpileScript(runnerSource).catch((err: unknown) => {
+      _runtime = null;
+      throw err;
+    });
+  }
+  return _runtime;
+};
+
+/**
+ * Runs a bundle in a Web Worker (`runnerWorker.ts`) and streams its output. The worker is
+ * started by a `sandbox="allow-scripts"` iframe, so it has an opaque origin: the IDE's
+ * storage is out of reach and its fetches carry no cookies. Removing the iframe when the run
+ * exits or is killed terminates the worker.
+ */
+export function startWorkerProcess(
+  request: WorkerRunRequest,
+  write: (data: string) => void
+): { kill: () => void; exit: Promise<number> } {
+  const frame = document.createElement('iframe');
+  frame.sandbox.add('allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = SANDBOX_PAGE;
+
+  let resolveExit: (code: number) => void = () => {};
+  const exit = new Promise<number>(resolve => {
+    resolveExit = resolve;
+  });
+  let finished = false;
+  const finish = (code: number) => {
+    if (finished) return;
+    finished = true;
+    window.removeEventListener('message', onMessage);
+    frame.remove();
+    resolveExit(code);
+  };
+  const fail = (message: string) => {
+    write(`\x1b[1;31m${message}\x1b[0m\r\n`);
+    finish(1);
+  };
+
+  // Opaque origins all report `null`, so messages are told apart by their window
+  const onMessage = (e: MessageEvent<SandboxMessage>) => {
+    if (e.source !== frame.contentWindow) return;
+    if (e.data.type === 'output') {
+      write(e.data.data.replace(/\r?\n/g, '\r\n'));
+    } else if (e.data.type === 'error') {
+      fail(e.data.message);
+    } else {
+      finish(e.data.code);
+    }
+  };
+  window.addEventListener('message', onMessage);
+
+  const loaded = new Promise(resolve => frame.addEventListener('load', resolve, { once: true }));
+  document.body.append(frame);
+  Promise.all([loadRuntime(), loaded])
+    .then(([source]) => {
+      if (!finished) frame.contentWindow?.postMessage({ source, request }, '*');
+    })
+    .catch((err: unknown) => fail(`Could not start the worker: ${err}`));
+
+  return { kill: () => finish(KILLED_EXIT_CODE), exit };
+}
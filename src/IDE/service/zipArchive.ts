@@ -0,0 +1,87 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+
+export interface ArchiveEntry {
+  path: string;
+  type: 'file' | 'folder';
+  content: string;
+}
+
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+// Archive metadata that other tools add and that has no place in a project
+const IGNORED_SEGMENTS = new Set(['__MACOSX', '.DS_Store']);
+
+export function createZip(entries: ArchiveEntry[]): Uint8Array {
+  const zippable: Zippable = {};
+  entries.forEach(entry => {
+    if (entry.type === 'folder') {
+      // A trailing slash keeps empty folders in the archive
+      zippable[`${entry.path}/`] = new Uint8Array(0);
+    } else {
+      zippable[entry.path] = strToU8(entry.content);
+    }
+  });
+  return zipSync(zippable, { level: 6 });
+}
+
+// Entries that would land outside the project root or create `.`/`..` records
+const isUnsafePath = (rawPath: string) =>
+  rawPath.startsWith('/') ||
+  rawPath.includes('\\') ||
+  /^[a-zA-Z]:/.test(rawPath) ||
+  rawPath.split('/').some(segment => segment === '.' || segment === '..');
+
+/**
+ * Unpacks an archive into text entries, parents before children. Binary files are
+ * reported separately because the `files` table only stores text, and so are entries
+ * with absolute, backslash, `.` or `..` paths, which are never unpacked.
+ */
+export function readZip(data: Uint8Array): {
+  entries: ArchiveEntry[];
+  skippedBinary: string[];
+  skippedUnsafe: string[];
+} {
+  const raw = unzipSync(data);
+  const entries: ArchiveEntry[] = [];
+  const skippedBinary: string[] = [];
+  const skippedUnsafe: string[] = [];
+
+  Object.entries(raw)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([rawPath, bytes]) => {
+      if (isUnsafePath(rawPath)) {
+        skippedUnsafe.push(rawPath);
+        return;
+      }
+
+      const isFolder = rawPath.endsWith('/');
+      const segments = rawPath.split('/').filter(Boolean);
+      if (segments.length === 0 || segments.some(segment => IGNORED_SEGMENTS.has(segment))) return;
+
+      const path = segments.join('/');
+      if (isFolder) {
+        entries.push({ path, type: 'folder', content: '' });
+      } else if (bytes.includes(0)) {
+        skippedBinary.push(path);
+      } else {
+        entries.push({ path, type: 'file', content: strFromU8(bytes) });
+      }
+    });
+
+  return { entries, skippedBinary, skippedUnsafe };
+}
+
+// "index.js" -> "index (1).js", "Makefile" -> "Makefile (1)"
+export function makeUniqueName(name: string, isTaken: (candidate: string) => boolean): string {
+  const dotIndex = name.lastIndexOf('.');
+  const base = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+  const ext = dotIndex > 0 ? name.slice(dotIndex) : '';
+
+  let counter = 1;
+  let candidate = `${base} (${counter})${ext}`;
+  while (isTaken(candidate)) {
+    counter++;
+    candidate = `${base} (${counter})${ext}`;
+  }
+  return candidate;
+}
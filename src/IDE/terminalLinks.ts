@@ -0,0 +1,26 @@
+export interface LocationMatch {
+  // Offset and length of the matched text within the searched string
+  index: number;
+  length: number;
+  path: string;
+  line: number;
+  column: number;
+}
+
+// `path:line` or `path:line:column`, optionally as a `file://` URL; the path needs an extension
+// and must not continue another word or URL (`http://host:3000/app.js:1`)
+const LOCATION_PATTERN = /(?<![\w.@$+\-/:])(?:file:\/\/)?((?:\.{0,2}\/)?[\w.@$+-]+(?:\/[\w.@$+-]+)*\.[A-Za-z]\w*):(\d+)(?::(\d+))?/g;
+
+/**
+ * Finds file locations in terminal text, as printed in Node stack traces
+ * (`at foo (/home/project/src/x.js:12:5)`) and compiler messages (`src/x.ts:3:4:`).
+ */
+export function findFileLocations(text: string): LocationMatch[] {
+  return Array.from(text.matchAll(LOCATION_PATTERN), match => ({
+    index: match.index,
+    length: match[0].length,
+    path: match[1],
+    line: Number(match[2]),
+    column: match[3] ? Number(match[3]) : 1
+  }));
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef } from 'react';
+import { useMonaco } from '@monaco-editor/react';
+import type { WebContainer } from '@webcontainer/api';
+import type { ProjectFile } from './service/types';
+import type { TypeDeclaration } from './service/typeDeclarations';
+import { detectLanguage } from './languages';
+
+type Monaco = NonNullable<ReturnType<typeof useMonaco>>;
+type CompilerOptions = Parameters<Monaco['typescript']['typescriptDefaults']['setCompilerOptions']>[0];
+
+export const toModelUri = (path: string) => `file:///${path}`;
+
+/**
+ * Strips comments and trailing commas so `tsconfig.json` (JSONC) can go through `JSON.parse`.
+ */
+function parseJsonc(text: string): unknown {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+// Case-insensitive lookup of a tsconfig string (e.g. "es2022", "react-jsx") in a Monaco enum
+function enumValue(values: object, value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.replace(/-/g, '').toLowerCase();
+  const match = Object.entries(values).find(
+    ([key, enumMember]) => typeof enumMember === 'number' && key.toLowerCase() === normalized
+  );
+  return match?.[1];
+}
+
+function toCompilerOptions(monaco: Monaco, tsconfigText: string | null): CompilerOptions {
+  const ts = monaco.typescript;
+  const defaults: CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    jsx: ts.JsxEmit.ReactJSX,
+    allowJs: true,
+    esModuleInterop: true,
+    allowSyntheticDefaultImports: true,
+    allowNonTsExtensions: true
+  };
+
+  if (!tsconfigText) return defaults;
+
+  let raw: Record<string, unknown>;
+  try {
+    const parsed = parseJsonc(tsconfigText) as { compilerOptions?: Record<string, unknown> };
+    raw = parsed.compilerOptions ?? {};
+  } catch (err) {
+    console.warn('Ignoring invalid tsconfig.json:', err);
+    return defaults;
+  }
+
+  return {
+    ...defaults,
+    ...raw,
+    target: enumValue(ts.ScriptTarget, raw.target) ?? defaults.target,
+    module: enumValue(ts.ModuleKind, raw.module) ?? defaults.module,
+    // Monaco only knows Classic and NodeJs; every modern mode resolves like NodeJs here
+    moduleResolution:
+      typeof raw.moduleResolution === 'string' && raw.moduleResolution.toLowerCase() === 'classic' ?
+        ts.ModuleResolutionKind.Classic
+      : ts.ModuleResolutionKind.NodeJs,
+    jsx: enumValue(ts.JsxEmit, raw.jsx) ?? defaults.jsx,
+    lib: Array.isArray(raw.lib) ? raw.lib.map(lib => String(lib).toLowerCase()) : undefined,
+    allowNonTsExtensions: true
+  };
+}
+
+/**
+ * Keeps one Monaco model per project file (under its `generateFilePaths` path), drives the
+ * TypeScript compiler options from `tsconfig.json` and loads declarations from the container's
+ * `node_modules`, so completions and go-to-definition work across files.
+ */
+export function useMonacoProject({
+  files,
+  buffers,
+  loadTypeDeclarations,
+  webContainer
+}: {
+  // Saved project files; re-synced whenever the array identity changes
+  files: ProjectFile[];
+  // Unsaved editor contents keyed by file id, which win over saved content
+  buffers: Record<string, string>;
+  loadTypeDeclarations: (webContainer: WebContainer) => Promise<TypeDeclaration[]>;
+  webContainer: WebContainer | null;
+}) {
+  const monaco = useMonaco();
+  const ownedUris = useRef(new Set<string>());
+  const buffersRef = useRef(buffers);
+
+  useEffect(() => {
+    buffersRef.current = buffers;
+  }, [buffers]);
+
+  const openIds = Object.keys(buffers).sort().join(',');
+
+  useEffect(() => {
+    if (!monaco) return;
+
+    const ts = monaco.typescript;
+    ts.typescriptDefaults.setEagerModelSync(true);
+    ts.javascriptDefaults.setEagerModelSync(true);
+
+    const liveUris = new Set<string>();
+    files.forEach(file => {
+      const uri = monaco.Uri.parse(toModelUri(file.path));
+      const key = uri.toString();
+      const buffer = buffersRef.current[file.id];
+      const model = monaco.editor.getModel(uri);
+
+      liveUris.add(key);
+      ownedUris.current.add(key);
+
+      if (!model) {
+        monaco.editor.createModel(buffer ?? file.content, detectLanguage(file.path.split('/').pop()!).id, uri);
+      } else if (buffer === undefined && model.getValue() !== file.content) {
+        // A closed tab may leave discarded edits behind; fall back to what is saved
+        model.setValue(file.content);
+      }
+    });
+
+    // Dispose models of deleted, renamed or moved files
+    ownedUris.current.forEach(key => {
+      if (liveUris.has(key)) return;
+      monaco.editor.getModel(monaco.Uri.parse(key))?.dispose();
+      ownedUris.current.delete(key);
+    });
+
+    const tsconfig = files.find(file => file.path === 'tsconfig.json');
+    const options = toCompilerOptions(monaco, tsconfig ? (buffersRef.current[tsconfig.id] ?? tsconfig.content) : null);
+    ts.typescriptDefaults.setCompilerOptions(options);
+    ts.javascriptDefaults.setCompilerOptions(options);
+  }, [monaco, files, openIds]);
+
+  useEffect(() => {
+    if (!monaco || !webContainer) return;
+
+    const ts = monaco.typescript;
+    let disposables: Array<{ dispose(): void }> = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const declarations = await loadTypeDeclarations(webContainer);
+      if (cancelled) return;
+
+      disposables.forEach(disposable => disposable.dispose());
+      disposables = declarations.flatMap(({ path, content }) => [
+        ts.typescriptDefaults.addExtraLib(content, toModelUri(path)),
+        ts.javascriptDefaults.addExtraLib(content, toModelUri(path))
+      ]);
+    };
+
+    refresh().catch(err => console.warn('Failed to load type declarations:', err));
+
+    // `npm install` finishes by writing the lockfile, so that's our cue to rescan
+    const watcher = webContainer.fs.watch('.', (_, filename) => {
+      if (filename !== 'package-lock.json' && filename !== 'node_modules') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        refresh().catch(err => console.warn('Failed to load type declarations:', err));
+      }, 1000);
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      watcher.close();
+      disposables.forEach(disposable => disposable.dispose());
+    };
+  }, [monaco, webContainer, loadTypeDeclarations]);
+}
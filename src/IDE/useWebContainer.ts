@@ -70,6 +70,15 @@ export function useWebContainer() {
     [webContainer]
   );
 
+  // Removes everything from the workdir (including node_modules) before another project is mounted
+  const clearWorkdir = useCallback(async () => {
+    if (!webContainer) return;
+    const entries = await webContainer.fs.readdir('.');
+    await Promise.all(
+      entries.map((entry) => webContainer.fs.rm(entry, { recursive: true, force: true }))
+    );
+  }, [webContainer]);
+
   const writeFile = useCallback(
     async (path: string, content: string) => {
       if (!webContainer) return;
@@ -89,6 +98,7 @@ export function useWebContainer() {
     error,
     boot,
     mount,
+    clearWorkdir,
     writeFile
   };
 }
@@ -1,3 +1,12 @@
 declare module '@sqlite.org/sqlite-wasm' {
   export function sqlite3Worker1Promiser(...args: unknown[]): unknown;
 }
+
+// File System Access API pieces that TypeScript's DOM lib doesn't ship yet
+interface Window {
+  showDirectoryPicker?(options?: { mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+}
+
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+}